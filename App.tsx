@@ -6,7 +6,8 @@
 */
 
 import React, { useState, useCallback, useRef, useEffect, useMemo, useContext } from 'react';
-import { clearState, nukeDatabase, dataUrlToBlob } from './services/persistence';
+import { nukeDatabase, repairDatabase, dataUrlToBlob, SavedSession, SessionSnapshot } from './services/persistence';
+import { projectService, ProjectInfo } from './services/projectService';
 import { AppContext } from './context/AppContext';
 import { Spinner } from './components/Spinner';
 import { FilterPanel } from './components/FilterPanel';
@@ -21,23 +22,55 @@ import { XIcon, HistoryIcon, BoltIcon, PaletteIcon, SunIcon, EraserIcon, TypeIco
 import { SystemConfigWidget } from './components/SystemConfigWidget';
 import { ImageUploadPlaceholder } from './components/ImageUploadPlaceholder';
 import { StartScreen } from './components/StartScreen';
-import * as geminiService from './services/geminiService';
-import { RoutedStyle } from './services/geminiService';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { providerService, ImageGenerationConfig, ImageGenerationResult, ImageOutputConfig, RoutedStyle } from './services/providerService';
+import { nearestAspectRatio, readImageDimensions } from './utils/aspectRatio';
+import { createNodeId, pathTo, redoTarget, rememberPath } from './utils/historyTree';
+import { GenerationUsage } from './services/usageService';
+import { BudgetError, CancelledError, PixshopError, SafetyDetails, SafetyError, normalizeError } from './services/errors';
+import { budgetService } from './services/budgetService';
+import { paletteService } from './services/paletteService';
+import { progressService, ProgressOutcome } from './services/progressService';
+import { useProgress } from './hooks/useProgress';
 import { HistoryGrid } from './components/HistoryGrid';
+import { VariantPicker, VariantTray } from './components/VariantPicker';
 import { debugService } from './services/debugService';
 import { DebugConsole } from './components/DebugConsole';
 import { CameraCaptureModal } from './components/CameraCaptureModal';
 import { LightningManager } from './components/LightningManager';
 import { audioService } from './services/audioService';
+import { sha256Hex } from './utils/hash';
 
 export type ActiveTab = 'flux' | 'style_extractor' | 'filters' | 'light' | 'typography' | 'vector'; // Changed 'adjust' to 'light'
 
+const ACTIVE_TABS: ActiveTab[] = ['flux', 'style_extractor', 'filters', 'light', 'typography', 'vector'];
+
+// Tabs come back from storage as plain strings; older saves may name panels that no longer exist
+const toActiveTab = (tab: string | undefined): ActiveTab => ACTIVE_TABS.includes(tab as ActiveTab) ? tab as ActiveTab : 'flux';
+
+// One node of the history tree. Results are children of the image they were made from,
+// so stepping back and generating again opens a branch instead of discarding redo.
 export interface HistoryItem {
+    id: string;
+    parentId: string | null; // null for uploads and generations made without a source
     content: File | string;
     prompt?: string;
     type: 'upload' | 'generation' | 'edit' | 'transformation';
     timestamp: number;
     groundingUrls?: { uri: string; title?: string }[];
+    usage?: GenerationUsage; // Tokens billed for this result, when the backend reports them
+    starred?: boolean;       // Exempt from storage eviction
+    downscaled?: boolean;    // Content was replaced by a thumbnail to save space
+}
+
+// A request the safety filter stopped. Listed in the history log, never in the image stack.
+export interface BlockedAttempt {
+    id: string;
+    timestamp: number;
+    panel: ActiveTab;
+    prompt?: string;
+    negativePrompt?: string;
+    details: SafetyDetails;
 }
 
 export type GenerationRequest = {
@@ -45,26 +78,83 @@ export type GenerationRequest = {
     prompt?: string;
     useOriginal?: boolean;
     forceNew?: boolean;
-    aspectRatio?: string;
+    imageConfig?: ImageOutputConfig; // Pins the frame; otherwise the shared selector decides
     isChaos?: boolean;
+    chaosLevel?: number;
     batchSize?: number;
     batchIndex?: number;
     systemInstructionOverride?: string;
     negativePrompt?: string; 
+    colorConstraints?: string[]; // Defaults to the color lock picked in the DNA Lab
     denoisingInstruction?: string; 
+    editStrength?: number;
     useGoogleSearch?: boolean; 
+    budgetOverride?: boolean; // Dispatch even past a hard budget cap
+};
+
+export interface BatchVariant {
+    id: string;
+    file: File;
+    url: string; // Object URL for thumbnails, revoked once the variant is kept or dropped
+    parentId: string | null; // History node the batch was generated from; kept variants attach there
+    prompt?: string;
+    batchIndex: number;
+    groundingUrls?: { uri: string; title?: string }[];
+    usage?: GenerationUsage;
+}
+
+const SESSION_AUTOSAVE_DELAY_MS = 1200;
+const SAVE_NOTICE_MS = 2000; // How long DNA_SAVED stays on the overlay after a download starts
+
+// Variant seeds follow from the request rather than chance, so a recorded batch fingerprints the same
+// on replay. Batch size stays out: variant #2 of a batch of four matches #2 of a batch of two.
+const batchSeedBase = async (req: GenerationRequest, source: File | undefined, colorConstraints?: string[], imageConfig?: ImageOutputConfig): Promise<number> => {
+    const { batchSize, batchIndex, budgetOverride, ...request } = req;
+    const sourceHash = source ? await sha256Hex(await source.arrayBuffer()) : null;
+    const hex = await sha256Hex(JSON.stringify({ ...request, colorConstraints, imageConfig, sourceHash }));
+    return parseInt(hex.slice(0, 8), 16) % 1_000_000;
+};
+
+const runGeneration = async (req: GenerationRequest, source: File | undefined, config: ImageGenerationConfig): Promise<ImageGenerationResult | null> => {
+    const provider = providerService.getImageProvider(req.type);
+    const progress = config.progress;
+    switch(req.type) {
+        case 'flux':
+            progress?.report('generating', "SYNTHESIZING_LATENT_VECTORS...");
+            return (req.forceNew || !source)
+                ? provider.textToImage(req.prompt!, config)
+                : provider.imageToImage(source, req.prompt!, config);
+        case 'filters':
+        case 'light': // Changed 'adjust' to 'light'
+            if (!source) return null;
+            progress?.report('generating', "APPLYING_FILTER_PROTOCOL...");
+            return provider.editImage(source, req.prompt!, config);
+        case 'typography':
+        case 'vector':
+            progress?.report('generating', "RASTERIZING_PATHS...");
+            return (req.forceNew || !source) 
+                ? provider.textToImage(req.prompt!, config)
+                : provider.imageToImage(source, req.prompt!, config);
+        default:
+            return null;
+    }
 };
 
 export const App: React.FC = () => {
     // Removed `imageModel` and `isFastAiEnabled` from context destructuring as model selection is fixed
-    const { isLoading, setIsLoading, density } = useContext(AppContext);
+    const { isLoading, setIsLoading, density, aspectRatio, outputSize } = useContext(AppContext);
     const [appStarted, setAppStarted] = useState(false);
     const [history, setHistory] = useState<HistoryItem[]>([]); 
-    const [historyIndex, setHistoryIndex] = useState(-1); 
-    const [error, setError] = useState<string | null>(null);
+    const [currentId, setCurrentId] = useState<string | null>(null);
+    const [activeChildren, setActiveChildren] = useState<Record<string, string>>({}); // Redo path per node
+    const [error, setError] = useState<PixshopError | null>(null);
+    const [blockedLog, setBlockedLog] = useState<BlockedAttempt[]>([]);
+    const [inspectBlockedId, setInspectBlockedId] = useState<string | null>(null);
+    const [budgetNotice, setBudgetNotice] = useState<string | null>(null);
+    const [colorLock, setColorLock] = useState<string[]>(() => paletteService.getLocked());
     const [activeTab, setActiveTab] = useState<ActiveTab | null>('flux');
     const [isComparing, setIsComparing] = useState(false);
-    const [viewerInstruction, setViewerInstruction] = useState<string | null>(null);
+    const progress = useProgress();
     const [showHistoryGrid, setShowHistoryGrid] = useState(false);
     const [showDebugger, setShowDebugger] = useState(false);
     const [showCamera, setShowCamera] = useState(false);
@@ -74,25 +164,111 @@ export const App: React.FC = () => {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
     const [fluxPrompt, setFluxPrompt] = useState('');
+    const lastRequestRef = useRef<GenerationRequest | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [variants, setVariants] = useState<BatchVariant[]>([]);
+    const [parkedVariants, setParkedVariants] = useState<BatchVariant[]>([]);
+    const [variantFailures, setVariantFailures] = useState<{ failed: number; total: number; message: string } | null>(null);
+    const variantsRef = useRef(variants); // Read by a batch resolving while an older picker is still open
+    variantsRef.current = variants;
+    const [projectId, setProjectId] = useState<string | null>(() => projectService.getActiveId());
+    const [showProjects, setShowProjects] = useState(false);
+    const [savedSession, setSavedSession] = useState<(SavedSession<HistoryItem> & { project: ProjectInfo }) | null>(null);
 
     useEffect(() => {
         debugService.init();
     }, []);
 
+    // The active project's last autosave is offered on the start screen, never restored silently
+    useEffect(() => {
+        (async () => {
+            const projects = await projectService.list();
+            const project = projects.find(p => p.id === projectService.getActiveId());
+            if (!project) return;
+            setProjectId(project.id);
+            const session = await projectService.load<HistoryItem>(project.id);
+            if (session && session.history.length > 0) setSavedSession({ ...session, project });
+        })().catch(() => {});
+    }, []);
+
+    // Deleting the open project from the browser detaches the workspace; the next save starts a new one
+    useEffect(() => projectService.subscribe(() => setProjectId(projectService.getActiveId())), []);
+
+    const sessionSnapshot = useCallback((): SessionSnapshot<HistoryItem> => ({
+        history, currentId, activeChildren, activeTab: activeTab || 'flux', blocked: blockedLog
+    }), [history, currentId, activeChildren, activeTab, blockedLog]);
+
+    // Eviction pruned `before`; nodes added since stay, and stars set meanwhile win over the pruned copy
+    const adoptEviction = useCallback((before: HistoryItem[], after: SessionSnapshot<HistoryItem>) => {
+        const known = new Set(before.map(h => h.id));
+        setHistory(prev => {
+            if (!prev.some(h => known.has(h.id))) return prev; // Workspace was cleared or switched meanwhile
+            const live = new Map(prev.map(h => [h.id, h]));
+            const pruned = after.history.map(h => {
+                const starred = live.get(h.id)?.starred;
+                return starred !== undefined && starred !== h.starred ? { ...h, starred } : h;
+            });
+            return [...pruned, ...prev.filter(h => !known.has(h.id))];
+        });
+        setActiveChildren(after.activeChildren);
+    }, []);
+
+    const saveToProject = useCallback(async (snapshot: SessionSnapshot<HistoryItem>) => {
+        let id = projectId;
+        if (!id) {
+            id = (await projectService.create()).id;
+            projectService.setActive(id);
+        }
+        const pruned = await projectService.save(id, snapshot);
+        if (pruned) adoptEviction(snapshot.history, pruned);
+    }, [projectId, adoptEviction]);
+
+    const handleEvictNow = useCallback(async () => {
+        const snapshot = sessionSnapshot();
+        const result = await projectService.evict(projectId, snapshot);
+        if (result.snapshot) adoptEviction(snapshot.history, result.snapshot);
+        return result;
+    }, [projectId, sessionSnapshot, adoptEviction]);
+
+    // Debounced so a burst of kept variants or quick undo/redo becomes a single write
+    useEffect(() => {
+        if (!appStarted || history.length === 0) return;
+        const timer = setTimeout(() => {
+            saveToProject(sessionSnapshot()).catch(e => console.warn("Session autosave failed:", e));
+        }, SESSION_AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [appStarted, history.length, sessionSnapshot, saveToProject]);
+
+    useEffect(() => paletteService.subscribe(setColorLock), []);
+
     // Audio Effects for Loading State
     useEffect(() => {
         if (isLoading) {
             audioService.startDrone();
         } else {
             audioService.stopDrone();
-            if (viewerInstruction === "DNA_SAVED" || viewerInstruction === null && !error) {
-                // Play success if we just finished loading without error
-            }
         }
-    }, [isLoading, error, viewerInstruction]);
+    }, [isLoading]);
 
-    const currentItem = useMemo(() => history[historyIndex], [history, historyIndex]);
+    const currentItem = useMemo(() => history.find(h => h.id === currentId), [history, currentId]);
+    // The upload the current branch grew from
+    const originalItem = useMemo(() => pathTo(history, currentId).find(h => h.type === 'upload'), [history, currentId]);
+    const redoItem = useMemo(() => currentItem ? redoTarget(history, activeChildren, currentItem.id) : undefined, [history, activeChildren, currentItem]);
     const [currentMediaUrl, setCurrentMediaUrl] = useState<string | null>(null);
+    const [mediaAspect, setMediaAspect] = useState(4 / 5);
+
+    // The canvas frame follows the real dimensions of whatever is on screen
+    useEffect(() => {
+        if (!currentMediaUrl) {
+            setMediaAspect(4 / 5);
+            return;
+        }
+        let stale = false;
+        readImageDimensions(currentMediaUrl)
+            .then(({ width, height }) => { if (!stale && width && height) setMediaAspect(width / height); })
+            .catch(() => {});
+        return () => { stale = true; };
+    }, [currentMediaUrl]);
 
     useEffect(() => {
         if (currentItem) {
@@ -107,28 +283,43 @@ export const App: React.FC = () => {
     }, [currentItem]);
 
     const originalImageUrl = useMemo(() => {
-        const item = history.find(h => h.type === 'upload');
-        if (!item) return null;
-        return typeof item.content === 'string' ? item.content : URL.createObjectURL(item.content);
+        if (!originalItem) return null;
+        return typeof originalItem.content === 'string' ? originalItem.content : URL.createObjectURL(originalItem.content);
+    }, [originalItem]);
+
+    // Appends results under `parentId`; several kept variants become siblings, the last one is shown
+    const addToHistory = useCallback((items: Omit<HistoryItem, 'id' | 'parentId'>[], parentId: string | null) => {
+        if (items.length === 0) return;
+        const nodes: HistoryItem[] = items.map(item => ({ ...item, id: createNodeId(), parentId }));
+        const last = nodes[nodes.length - 1];
+        setHistory(prev => [...prev, ...nodes]);
+        if (parentId) setActiveChildren(prev => ({ ...prev, [parentId]: last.id }));
+        setCurrentId(last.id);
+    }, []);
+
+    const goToNode = useCallback((id: string | null) => {
+        setCurrentId(id);
+        if (id) setActiveChildren(prev => rememberPath(prev, history, id));
     }, [history]);
 
+    const toggleStar = useCallback((id: string) => {
+        setHistory(prev => prev.map(h => h.id === id ? { ...h, starred: !h.starred } : h));
+    }, []);
+
     const handleImageUpload = useCallback(async (file: File) => {
         audioService.playClick();
         setIsLoading(true);
-        setViewerInstruction("INJECTING_SOURCE_DNA...");
-        const newItem: HistoryItem = { content: file, type: 'upload', timestamp: Date.now() };
-        setHistory(prev => [...prev.slice(0, historyIndex + 1), newItem]);
-        setHistoryIndex(prev => prev + 1);
+        // Every upload starts a new tree
+        addToHistory([{ content: file, type: 'upload', timestamp: Date.now() }], null);
         setAppStarted(true);
-        setViewerInstruction(null);
         setIsLoading(false);
-    }, [setIsLoading, historyIndex]);
+    }, [setIsLoading, addToHistory]);
 
     const handleDownload = useCallback(async () => {
         audioService.playClick();
         if (!currentMediaUrl) return;
         setIsLoading(true);
-        setViewerInstruction("COLLECTING_PIXELS...");
+        const job = progressService.start('download', "COLLECTING_PIXELS...");
         try {
             const blob = currentMediaUrl.startsWith('data:') ? dataUrlToBlob(currentMediaUrl) : await (await fetch(currentMediaUrl)).blob();
             const url = URL.createObjectURL(blob);
@@ -136,22 +327,105 @@ export const App: React.FC = () => {
             link.href = url;
             link.download = `pixshop_${Date.now()}.png`;
             link.click();
-            setViewerInstruction("DNA_SAVED");
+            // The job stays open with the overlay up until the notice has been seen
+            job.report('decoding', "DNA_SAVED", 100);
             audioService.playSuccess();
-            setTimeout(() => setViewerInstruction(null), 2000);
-        } catch (e: any) { setError(`FAULT: ${e.message}`); } finally { setIsLoading(false); }
+            await new Promise(resolve => setTimeout(resolve, SAVE_NOTICE_MS));
+            URL.revokeObjectURL(url);
+            job.end('done');
+        } catch (e: any) { job.end('failed'); setError(normalizeError(e)); } finally { setIsLoading(false); }
     }, [currentMediaUrl, setIsLoading]);
 
+    const resetWorkspace = useCallback(() => {
+        setHistory([]);
+        setCurrentId(null);
+        setActiveChildren({});
+        setBlockedLog([]);
+        [...variants, ...parkedVariants].forEach(v => URL.revokeObjectURL(v.url));
+        setVariants([]);
+        setParkedVariants([]);
+        setSavedSession(null);
+    }, [variants, parkedVariants]);
+
     const handleClearSession = useCallback(async () => { 
         audioService.playClick();
-        setHistory([]);
-        setHistoryIndex(-1);
-        await clearState().catch(console.error); 
+        resetWorkspace();
+        if (projectId) await projectService.clear(projectId).catch(console.error); 
+    }, [resetWorkspace, projectId]);
+
+    const applySession = useCallback((session: SavedSession<HistoryItem>) => {
+        const { history: items, currentId: id, activeChildren: children, activeTab: tab, blocked } = session;
+        setHistory(items);
+        setBlockedLog((blocked || []) as BlockedAttempt[]);
+        setCurrentId(id && items.some(h => h.id === id) ? id : items[items.length - 1]?.id ?? null);
+        setActiveChildren(children);
+        setActiveTab(toActiveTab(tab));
     }, []);
 
+    const handleResumeSession = useCallback(() => {
+        if (!savedSession) return;
+        applySession(savedSession);
+        setSavedSession(null);
+        setAppStarted(true);
+        audioService.playSuccess();
+    }, [savedSession, applySession]);
+
+    // Writes pending changes of the open project before the workspace is replaced; throws so callers keep it open on failure
+    const flushProject = useCallback(async () => {
+        if (!appStarted || history.length === 0) return;
+        try {
+            await saveToProject(sessionSnapshot());
+        } catch (e) {
+            throw new PixshopError('IO_FAULT', "Open project could not be saved, so it stays open. Free some space and retry.", { cause: e });
+        }
+    }, [appStarted, history.length, saveToProject, sessionSnapshot]);
+
+    const handleOpenProject = useCallback(async (id: string) => {
+        audioService.playClick();
+        try {
+            await flushProject();
+            const project = await projectService.get(id);
+            const session = await projectService.load<HistoryItem>(id);
+            resetWorkspace();
+            if (session) applySession(session);
+            else setActiveTab(toActiveTab(project?.lastTab));
+            projectService.setActive(id);
+            setShowProjects(false);
+            setAppStarted(true);
+        } catch (e) {
+            setError(normalizeError(e));
+            if (appStarted) setShowProjects(false); // The error banner belongs to the workspace, which the browser covers
+        }
+    }, [appStarted, flushProject, resetWorkspace, applySession]);
+
+    const handleNewProject = useCallback(async () => {
+        audioService.playClick();
+        try {
+            await flushProject();
+            resetWorkspace();
+            projectService.setActive((await projectService.create()).id);
+            setShowProjects(false);
+            setAppStarted(true);
+        } catch (e) {
+            setError(normalizeError(e));
+            if (appStarted) setShowProjects(false);
+        }
+    }, [appStarted, flushProject, resetWorkspace]);
+
     const handleCloseMedia = useCallback(() => {
         audioService.playClick();
-        setHistoryIndex(-1);
+        setCurrentId(null);
+    }, []);
+
+    // Quarantines corrupt records; wiping everything is only offered when the database cannot be opened at all
+    const handleRepairDatabase = useCallback(() => {
+        if (!window.confirm("REPAIR_DATABASE? Corrupt records move to quarantine.")) return;
+        repairDatabase()
+            .then(() => window.location.reload())
+            .catch(e => {
+                console.error("Repair failed:", e);
+                if (window.confirm("REPAIR_FAILED. FORMAT_DATABASE? All local data is lost.")) nukeDatabase().then(() => window.location.reload());
+            });
     }, []);
 
     const handleTabSwitch = useCallback((tab: ActiveTab) => { 
@@ -162,73 +436,173 @@ export const App: React.FC = () => {
 
     const handleRouteStyle = useCallback((style: RoutedStyle) => {
         const panelMapping: Record<string, ActiveTab> = {
-            'filter_panel': 'filters', 'vector_art_panel': 'vector', 'typographic_panel': 'typography', 'light_panel': 'light' // Updated mapping
+            'filter_panel': 'filters', 'vector_art_panel': 'vector', 'typographic_panel': 'typography', 'light_panel': 'light', 'flux': 'flux' // Updated mapping
         };
-        setPendingPrompt(style.preset_data.prompt);
+        // Flux keeps its prompt in App so it survives tab switches
+        if (style.target_panel_id === 'flux') setFluxPrompt(style.preset_data.prompt);
+        else setPendingPrompt(style.preset_data.prompt);
         setActiveTab(panelMapping[style.target_panel_id] || 'filters');
     }, []);
 
+    // "source" snaps to the supported ratio nearest the uploaded image, or the image being edited
+    const resolveImageConfig = useCallback(async (req: GenerationRequest, source?: File): Promise<ImageOutputConfig> => {
+        if (req.imageConfig) return req.imageConfig;
+        if (aspectRatio !== 'source') return { aspectRatio, imageSize: outputSize };
+        const reference = originalItem?.content || source;
+        if (!reference) return { aspectRatio: '1:1', imageSize: outputSize };
+        try {
+            const { width, height } = await readImageDimensions(reference);
+            return { aspectRatio: nearestAspectRatio(width, height), imageSize: outputSize };
+        } catch (e) {
+            console.warn("Aspect: unable to measure source, falling back to 1:1", e);
+            return { aspectRatio: '1:1', imageSize: outputSize };
+        }
+    }, [aspectRatio, outputSize, originalItem]);
+
+    const logBlockedAttempts = useCallback((req: GenerationRequest, errors: SafetyError[]) => {
+        const now = Date.now();
+        const entries = errors.filter(e => e.details).map((e, i): BlockedAttempt => {
+            e.attemptId = `blocked_${now}_${i}`; // DETAILS on the error banner opens this entry
+            return {
+                id: e.attemptId,
+                timestamp: now,
+                panel: req.type,
+                prompt: req.prompt,
+                negativePrompt: req.negativePrompt,
+                details: e.details!,
+            };
+        });
+        if (entries.length > 0) setBlockedLog(prev => [...prev, ...entries]);
+    }, []);
+
     const handleGenerationRequest = useCallback(async (req: GenerationRequest) => {
         audioService.playClick();
+        lastRequestRef.current = req;
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
         setError(null);
-        setViewerInstruction("CALIBRATING_NEURAL_FLOW...");
+        const job = progressService.start(req.type, "CALIBRATING_NEURAL_FLOW...");
+        let outcome: ProgressOutcome = 'done';
         try {
-            const source = (req.useOriginal ? history.find(h => h.type === 'upload')?.content : currentItem?.content) as File;
-            let result = '';
-            let groundingData: { uri: string; title?: string }[] | undefined;
+            const source = (req.useOriginal ? originalItem?.content : currentItem?.content) as File;
             
             // Removed specific check for 'gemini-3-pro-image-preview' as it's no longer an option
             // if (imageModel === 'gemini-3-pro-image-preview' && !process.env.API_KEY) {
             //     throw new Error("AUTH_FAIL: Neural Link required for Pro Core.");
             // }
             
-            const commonConfig = { ...req, setViewerInstruction };
-
-            switch(req.type) {
-                case 'flux':
-                    setViewerInstruction("SYNTHESIZING_LATENT_VECTORS...");
-                    const fluxResponse = (req.forceNew || !source)
-                        ? await geminiService.generateFluxTextToImage(req.prompt!, commonConfig)
-                        : await geminiService.generateFluxImage(source, req.prompt!, commonConfig);
-                    result = fluxResponse.imageUrl;
-                    groundingData = fluxResponse.groundingUrls;
-                    break;
-                case 'filters':
-                case 'light': // Changed 'adjust' to 'light'
-                    if (source) {
-                        setViewerInstruction("APPLYING_FILTER_PROTOCOL...");
-                        const filterResponse = await geminiService.generateFilteredImage(source, req.prompt!, commonConfig);
-                        result = filterResponse.imageUrl;
-                        groundingData = filterResponse.groundingUrls;
-                    }
-                    break;
-                case 'typography':
-                case 'vector':
-                    setViewerInstruction("RASTERIZING_PATHS...");
-                    const graphicResponse = (req.forceNew || !source) 
-                        ? await geminiService.generateFluxTextToImage(req.prompt!, commonConfig)
-                        : await geminiService.generateFluxImage(source, req.prompt!, commonConfig);
-                    result = graphicResponse.imageUrl;
-                    groundingData = graphicResponse.groundingUrls;
-                    break;
+            const batchSize = Math.max(1, req.batchSize || 1);
+            if (providerService.getImageProvider(req.type).metered && !req.budgetOverride) {
+                const budget = await budgetService.check(batchSize);
+                if (budget.level === 'blocked') throw new BudgetError(`${budget.message} Override to dispatch anyway.`);
+                setBudgetNotice(budget.level === 'warn' ? budget.message : null);
             }
-            if (result) {
-                 const blob = dataUrlToBlob(result);
-                 const file = new File([blob], `pix_${Date.now()}.png`, { type: 'image/png' });
-                 setHistory(prev => [...prev.slice(0, historyIndex + 1), { content: file, type: 'generation', timestamp: Date.now(), prompt: req.prompt, groundingUrls: groundingData }]);
-                 setHistoryIndex(prev => prev + 1);
-                 
-                 audioService.playSuccess();
+
+            const colorConstraints = req.colorConstraints ?? (colorLock.length > 0 ? colorLock : undefined);
+            const commonConfig = { ...req, colorConstraints, imageConfig: await resolveImageConfig(req, source), progress: job, signal: controller.signal };
+
+            if (batchSize === 1) {
+                const response = await runGeneration(req, source, commonConfig);
+                if (response && !controller.signal.aborted) {
+                     const blob = dataUrlToBlob(response.imageUrl);
+                     const file = new File([blob], `pix_${Date.now()}.png`, { type: 'image/png' });
+                     addToHistory([{ content: file, type: 'generation', timestamp: Date.now(), prompt: req.prompt, groundingUrls: response.groundingUrls, usage: response.usage }], currentItem?.id ?? null);
+                     
+                     audioService.playSuccess();
+                }
+                return;
+            }
+
+            // Every variant is its own scheduled call, so the concurrency cap and quota cooldown apply per image
+            const seedBase = await batchSeedBase(req, source, colorConstraints, commonConfig.imageConfig);
+            let resolved = 0;
+            const outcomes = await Promise.allSettled(Array.from({ length: batchSize }, async (_, batchIndex) => {
+                const response = await runGeneration({ ...req, batchIndex }, source, { ...commonConfig, seed: seedBase + batchIndex });
+                resolved++;
+                job.report('generating', `VARIANTS_RESOLVED [${resolved}/${batchSize}]`, Math.round(resolved / batchSize * 100));
+                return response;
+            }));
+            if (controller.signal.aborted) return;
+
+            const batchId = Date.now();
+            const batch: BatchVariant[] = [];
+            outcomes.forEach((outcome, batchIndex) => {
+                if (outcome.status !== 'fulfilled' || !outcome.value) return;
+                const file = new File([dataUrlToBlob(outcome.value.imageUrl)], `pix_${batchId}_${batchIndex}.png`, { type: 'image/png' });
+                batch.push({ id: `${batchId}_${batchIndex}`, file, url: URL.createObjectURL(file), parentId: currentItem?.id ?? null, prompt: req.prompt, batchIndex, groundingUrls: outcome.value.groundingUrls, usage: outcome.value.usage });
+            });
+            const failures = outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected');
+            logBlockedAttempts(req, failures.map(f => f.reason).filter((r): r is SafetyError => r instanceof SafetyError));
+            if (batch.length === 0) {
+                if (failures.length > 0) throw failures[0].reason;
+                return;
             }
+            if (failures.length > 0) console.warn(`Batch: ${failures.length}/${batchSize} variants failed`, failures.map(f => normalizeError(f.reason)));
+            // The panels stay usable under the picker; unpicked variants of an older batch go to the tray, as with Park_All
+            const unpicked = variantsRef.current;
+            if (unpicked.length > 0) setParkedVariants(prev => [...prev, ...unpicked]);
+            setVariantFailures(failures.length > 0 ? { failed: failures.length, total: batchSize, message: normalizeError(failures[0].reason).userMessage } : null);
+            variantsRef.current = batch; // Before the re-render, in case another batch resolves in the same tick
+            setVariants(batch);
+            audioService.playSuccess();
         } catch (e: any) { 
-            const errorMsg = e.message || "SYNTHESIS_FAULT";
-            setError(errorMsg);
+            const pixError = normalizeError(e);
+            outcome = pixError instanceof CancelledError ? 'cancelled' : 'failed';
+            if (outcome === 'cancelled') return;
+            // Batch variants were logged individually above
+            if (pixError instanceof SafetyError && (req.batchSize || 1) === 1) logBlockedAttempts(req, [pixError]);
+            console.error(pixError);
+            setError(pixError);
         } finally { 
-            setIsLoading(false);
-            setViewerInstruction(null);
+            job.end(controller.signal.aborted ? 'cancelled' : outcome);
+            // A newer request owns the loading state once this one is superseded
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+                setIsLoading(false);
+            }
         }
-    }, [history, historyIndex, currentItem, setIsLoading, setViewerInstruction]); // Removed imageModel from dependency array
+    }, [originalItem, currentItem, addToHistory, setIsLoading, resolveImageConfig, logBlockedAttempts, colorLock]); // Removed imageModel from dependency array
+
+    const handleCancelGeneration = useCallback(() => {
+        audioService.playClick();
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsLoading(false);
+    }, [setIsLoading]);
+
+    const commitVariants = useCallback((kept: BatchVariant[]) => {
+        if (kept.length === 0) return;
+        addToHistory(kept.map(v => ({ content: v.file, type: 'generation', timestamp: Date.now(), prompt: v.prompt, groundingUrls: v.groundingUrls, usage: v.usage })), kept[0].parentId);
+        kept.forEach(v => URL.revokeObjectURL(v.url));
+    }, [addToHistory]);
+
+    const handleKeepVariants = useCallback((ids: string[], parkRest: boolean) => {
+        audioService.playClick();
+        const rest = variants.filter(v => !ids.includes(v.id));
+        commitVariants(variants.filter(v => ids.includes(v.id)));
+        if (parkRest) setParkedVariants(prev => [...prev, ...rest]);
+        else rest.forEach(v => URL.revokeObjectURL(v.url));
+        setVariants([]);
+    }, [variants, commitVariants]);
+
+    const handleDiscardVariants = useCallback(() => {
+        audioService.playClick();
+        variants.forEach(v => URL.revokeObjectURL(v.url));
+        setVariants([]);
+    }, [variants]);
+
+    const handleRestoreParked = useCallback((id: string) => {
+        audioService.playClick();
+        commitVariants(parkedVariants.filter(v => v.id === id));
+        setParkedVariants(prev => prev.filter(v => v.id !== id));
+    }, [parkedVariants, commitVariants]);
+
+    const handleRemoveParked = useCallback((id: string) => {
+        parkedVariants.filter(v => v.id === id).forEach(v => URL.revokeObjectURL(v.url));
+        setParkedVariants(prev => prev.filter(v => v.id !== id));
+    }, [parkedVariants]);
 
     const sidebarTabs = [
         { id: 'flux', icon: BoltIcon, label: 'FLUX', color: 'text-flux' },
@@ -247,11 +621,17 @@ export const App: React.FC = () => {
 
             <div className="w-full h-full max-w-[1920px] flex flex-col relative z-10 overflow-hidden">
                 {showDebugger && <DebugConsole onClose={() => setShowDebugger(false)} />}
-                {showHistoryGrid && <HistoryGrid history={history} setHistoryIndex={(i) => { setHistoryIndex(i); setShowHistoryGrid(false); }} onClose={() => setShowHistoryGrid(false)} />}
+                {showHistoryGrid && <HistoryGrid history={history} currentId={currentId} blocked={blockedLog} initialBlockedId={inspectBlockedId} onSelect={(id) => { goToNode(id); setShowHistoryGrid(false); }} onToggleStar={toggleStar} onClose={() => { setShowHistoryGrid(false); setInspectBlockedId(null); }} />}
+                {showProjects && <ProjectBrowser activeId={projectId} onOpen={handleOpenProject} onNew={handleNewProject} onClose={() => setShowProjects(false)} />}
                 <CameraCaptureModal isOpen={showCamera} onClose={() => setShowCamera(false)} onCapture={handleImageUpload} />
 
                 {!appStarted ? (
-                    <StartScreen onStart={(tab) => { if (tab) setActiveTab(tab); setAppStarted(true); audioService.playSuccess(); }} />
+                    <StartScreen
+                        onStart={(tab) => { if (tab) setActiveTab(tab); projectService.setActive(null); setAppStarted(true); audioService.playSuccess(); }}
+                        resumable={savedSession ? { name: savedSession.project.name, savedAt: savedSession.savedAt, count: savedSession.history.length } : null}
+                        onResume={handleResumeSession}
+                        onOpenProjects={() => setShowProjects(true)}
+                    />
                 ) : (
                     <>
                         <div className={`absolute top-0 left-0 w-full h-[2px] bg-matrix/20 z-[100] transition-opacity duration-500 overflow-hidden ${isLoading ? 'opacity-100' : 'opacity-0'}`}>
@@ -260,7 +640,7 @@ export const App: React.FC = () => {
 
                         <header className="h-14 flex items-center justify-between px-6 bg-zinc-950/80 backdrop-blur-xl border-b border-white/5 z-50 shrink-0 pt-safe-top">
                             <div className="flex items-center gap-4">
-                                <div onClick={handleClearSession} className="cursor-pointer group flex items-center gap-3 active:scale-95 transition-transform">
+                                <div onClick={() => setShowProjects(true)} title="Projects" className="cursor-pointer group flex items-center gap-3 active:scale-95 transition-transform">
                                     <div className="w-7 h-7 border border-matrix/30 flex items-center justify-center shadow-neon-matrix transform skew-x-[-12deg] group-hover:skew-x-0 transition-all duration-300 bg-matrix/5">
                                         <BoltIcon className={`w-3.5 h-3.5 skew-x-[12deg] group-hover:skew-x-0 transition-all ${isLoading ? 'text-matrix animate-pulse' : 'text-matrix'}`} />
                                     </div>
@@ -290,12 +670,20 @@ export const App: React.FC = () => {
                         <main className="flex-1 w-full max-w-2xl mx-auto flex flex-col items-center justify-center p-4 relative gpu-accelerate overflow-hidden">
                             {isLoading && (
                                 <div className="absolute inset-0 z-[60] flex flex-col items-center justify-center bg-black/60 backdrop-blur-sm p-8 animate-fade-in">
-                                    <Spinner instruction={viewerInstruction} />
-                                    {viewerInstruction && (
+                                    <Spinner />
+                                    {progress?.message && (
                                         <div className="mt-12 text-matrix font-display text-2xl animate-pulse tracking-[0.4em] uppercase px-10 py-4 border-2 border-matrix/30 bg-black shadow-neon-matrix text-center max-w-sm skew-x-[-12deg]">
-                                            <span className="skew-x-[12deg] block">{viewerInstruction}</span>
+                                            <span className="skew-x-[12deg] block">{progress.message}</span>
                                         </div>
                                     )}
+                                    {abortControllerRef.current && (
+                                        <button 
+                                            onClick={handleCancelGeneration} 
+                                            className="mt-8 px-6 py-2 bg-red-500/10 border border-red-500/40 text-red-500 text-[10px] font-black uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all skew-x-[-12deg]"
+                                        >
+                                            <span className="skew-x-[12deg] block">ABORT_SYNTHESIS</span>
+                                        </button>
+                                    )}
                                 </div>
                             )}
 
@@ -303,9 +691,33 @@ export const App: React.FC = () => {
                                 <div className="absolute top-4 z-[70] glass-panel border-red-500/50 bg-red-950/95 text-white p-4 flex gap-4 items-center animate-fade-in max-w-[90vw] shadow-[0_0_60px_rgba(239,68,68,0.3)] rounded-none">
                                     <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse shadow-[0_0_15px_#ef4444]" />
                                     <div className="flex-1 min-w-0">
-                                        <p className="text-[9px] font-black tracking-widest uppercase opacity-50 mb-0.5 font-mono">System_Fault</p>
-                                        <p className="text-[10px] font-bold tracking-tight uppercase leading-tight truncate">{error}</p>
+                                        <p className="text-[9px] font-black tracking-widest uppercase opacity-50 mb-0.5 font-mono">System_Fault // {error.code}{error.status ? ` [${error.status}]` : ''}</p>
+                                        <p className="text-[10px] font-bold tracking-tight uppercase leading-tight truncate">{error.userMessage}</p>
                                     </div>
+                                    {error instanceof BudgetError && lastRequestRef.current && (
+                                        <button 
+                                            onClick={() => { if (window.confirm("Dispatch past the budget cap? This call will still be billed.")) handleGenerationRequest({ ...lastRequestRef.current!, budgetOverride: true }); }} 
+                                            className="px-3 py-1.5 bg-amber-500/10 border border-amber-500/40 text-amber-400 text-[8px] font-black uppercase tracking-widest hover:bg-amber-500 hover:text-black transition-all skew-x-[-12deg]"
+                                        >
+                                            <span className="skew-x-[12deg] block">OVERRIDE</span>
+                                        </button>
+                                    )}
+                                    {error instanceof SafetyError && error.attemptId && blockedLog.some(b => b.id === error.attemptId) && (
+                                        <button 
+                                            onClick={() => { setInspectBlockedId(error.attemptId!); setShowHistoryGrid(true); }} 
+                                            className="px-3 py-1.5 bg-white/5 border border-white/30 text-white/70 text-[8px] font-black uppercase tracking-widest hover:bg-white hover:text-black transition-all skew-x-[-12deg]"
+                                        >
+                                            <span className="skew-x-[12deg] block">DETAILS</span>
+                                        </button>
+                                    )}
+                                    {error.retryable && lastRequestRef.current && (
+                                        <button 
+                                            onClick={() => handleGenerationRequest(lastRequestRef.current!)} 
+                                            className="px-3 py-1.5 bg-matrix/10 border border-matrix/40 text-matrix text-[8px] font-black uppercase tracking-widest hover:bg-matrix hover:text-black transition-all skew-x-[-12deg]"
+                                        >
+                                            <span className="skew-x-[12deg] block">RETRY</span>
+                                        </button>
+                                    )}
                                     <button 
                                         onClick={() => setError(null)} 
                                         className="px-3 py-1.5 bg-red-500/10 border border-red-500/40 text-red-500 text-[8px] font-black uppercase tracking-widest hover:bg-red-500 hover:text-white transition-all skew-x-[-12deg]"
@@ -314,8 +726,29 @@ export const App: React.FC = () => {
                                     </button>
                                 </div>
                             )}
+
+                            {budgetNotice && !error && (
+                                <div className="absolute top-4 z-[70] glass-panel border-amber-500/50 bg-amber-950/95 text-white p-4 flex gap-4 items-center animate-fade-in max-w-[90vw] rounded-none">
+                                    <div className="w-3 h-3 bg-amber-500 rounded-full shadow-[0_0_15px_#f59e0b]" />
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-[9px] font-black tracking-widest uppercase opacity-50 mb-0.5 font-mono">Budget_Warning</p>
+                                        <p className="text-[10px] font-bold tracking-tight uppercase leading-tight truncate">{budgetNotice}</p>
+                                    </div>
+                                    <button 
+                                        onClick={() => setBudgetNotice(null)} 
+                                        className="px-3 py-1.5 bg-amber-500/10 border border-amber-500/40 text-amber-400 text-[8px] font-black uppercase tracking-widest hover:bg-amber-500 hover:text-black transition-all skew-x-[-12deg]"
+                                    >
+                                        <span className="skew-x-[12deg] block">DISMISS</span>
+                                    </button>
+                                </div>
+                            )}
                             
-                            <div className="w-full aspect-[4/5] relative group shadow-2xl">
+                            <VariantTray variants={parkedVariants} onRestore={handleRestoreParked} onRemove={handleRemoveParked} />
+
+                            <div className={`${mediaAspect < 1 ? 'h-full' : 'w-full'} max-w-full max-h-full relative group shadow-2xl`} style={{ aspectRatio: mediaAspect }}>
+                                {variants.length > 0 && (
+                                    <VariantPicker key={variants[0].id} variants={variants} failures={variantFailures} onKeep={handleKeepVariants} onDiscard={handleDiscardVariants} />
+                                )}
                                 {/* Minimalist HUD Elements */}
                                 <div className="absolute top-2 left-2 w-3 h-3 border-t border-l border-white/20 z-20 pointer-events-none" />
                                 <div className="absolute top-2 right-2 w-3 h-3 border-t border-r border-white/20 z-20 pointer-events-none" />
@@ -365,8 +798,8 @@ export const App: React.FC = () => {
                                                 <XIcon className="w-4 h-4" />
                                             </button>
                                             <div className="w-px h-6 bg-white/5 mx-2" />
-                                            <button onClick={() => setHistoryIndex(Math.max(0, historyIndex - 1))} disabled={historyIndex <= 0} className="w-9 h-9 flex items-center justify-center text-zinc-500 hover:text-matrix disabled:opacity-5 transition-all bg-white/5 border border-white/5"><UndoIcon className="w-4 h-4" /></button>
-                                            <button onClick={() => setHistoryIndex(Math.min(history.length - 1, historyIndex + 1))} disabled={historyIndex >= history.length - 1} className="w-9 h-9 flex items-center justify-center text-zinc-500 hover:text-matrix disabled:opacity-5 transition-all bg-white/5 border border-white/5"><RedoIcon className="w-4 h-4" /></button>
+                                            <button onClick={() => currentItem?.parentId && goToNode(currentItem.parentId)} disabled={!currentItem?.parentId} className="w-9 h-9 flex items-center justify-center text-zinc-500 hover:text-matrix disabled:opacity-5 transition-all bg-white/5 border border-white/5"><UndoIcon className="w-4 h-4" /></button>
+                                            <button onClick={() => redoItem && goToNode(redoItem.id)} disabled={!redoItem} className="w-9 h-9 flex items-center justify-center text-zinc-500 hover:text-matrix disabled:opacity-5 transition-all bg-white/5 border border-white/5"><RedoIcon className="w-4 h-4" /></button>
                                         </div>
 
                                         <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-6 py-2.5 bg-white/10 hover:bg-white/20 border border-white/10 transition-all group">
@@ -408,19 +841,31 @@ export const App: React.FC = () => {
                                 </div>
                             </div>
 
+                            {colorLock.length > 0 && (
+                                <div className="flex items-center gap-3 px-4 py-1.5 border-b border-white/5 bg-zinc-900/60 shrink-0">
+                                    <span className="text-[7px] font-black font-mono uppercase tracking-[0.3em] text-dna">Color_Lock</span>
+                                    <div className="flex gap-1 flex-1">
+                                        {colorLock.map(hex => (
+                                            <button key={hex} onClick={() => paletteService.toggleLocked(hex)} title={`Release ${hex}`} className="w-4 h-4 border border-white/20 hover:scale-110 transition-transform" style={{ backgroundColor: hex }} />
+                                        ))}
+                                    </div>
+                                    <button onClick={() => paletteService.setLocked([])} className="text-[7px] font-mono uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">Release</button>
+                                </div>
+                            )}
+
                             <div className="flex-1 overflow-hidden relative custom-scrollbar bg-black h-full">
-                                {activeTab === 'flux' && <FluxPanel onRequest={handleGenerationRequest} isLoading={isLoading} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} fluxPrompt={fluxPrompt} setFluxPrompt={setFluxPrompt} setViewerInstruction={setViewerInstruction} />}
-                                {activeTab === 'style_extractor' && <StyleExtractorPanel isLoading={isLoading} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} onRouteStyle={handleRouteStyle} setViewerInstruction={setViewerInstruction} />}
-                                {activeTab === 'filters' && <FilterPanel onRequest={handleGenerationRequest} isLoading={isLoading} setViewerInstruction={setViewerInstruction} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} initialPrompt={pendingPrompt || undefined} />}
-                                {activeTab === 'light' && <LightPanel onRequest={handleGenerationRequest} isLoading={isLoading} setViewerInstruction={setViewerInstruction} />} {/* Changed 'adjust' to 'light' */}
-                                {activeTab === 'vector' && <VectorArtPanel onRequest={handleGenerationRequest} isLoading={isLoading} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} setViewerInstruction={setViewerInstruction} initialPrompt={pendingPrompt || undefined} />}
-                                {activeTab === 'typography' && <TypographicPanel onRequest={handleGenerationRequest} isLoading={isLoading} hasImage={!!currentMediaUrl} setViewerInstruction={setViewerInstruction} initialPrompt={pendingPrompt || undefined} />}
+                                {activeTab === 'flux' && <FluxPanel onRequest={handleGenerationRequest} isLoading={isLoading} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} fluxPrompt={fluxPrompt} setFluxPrompt={setFluxPrompt} />}
+                                {activeTab === 'style_extractor' && <StyleExtractorPanel isLoading={isLoading} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} onRouteStyle={handleRouteStyle} />}
+                                {activeTab === 'filters' && <FilterPanel onRequest={handleGenerationRequest} isLoading={isLoading} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} initialPrompt={pendingPrompt || undefined} />}
+                                {activeTab === 'light' && <LightPanel onRequest={handleGenerationRequest} isLoading={isLoading} initialPrompt={pendingPrompt || undefined} />} {/* Changed 'adjust' to 'light' */}
+                                {activeTab === 'vector' && <VectorArtPanel onRequest={handleGenerationRequest} isLoading={isLoading} hasImage={!!currentMediaUrl} currentImageFile={currentItem?.content instanceof File ? currentItem.content : null} initialPrompt={pendingPrompt || undefined} />}
+                                {activeTab === 'typography' && <TypographicPanel onRequest={handleGenerationRequest} isLoading={isLoading} hasImage={!!currentMediaUrl} initialPrompt={pendingPrompt || undefined} />}
                             </div>
                         </footer>
                     </>
                 )}
             </div>
-            <SystemConfigWidget onSoftFix={() => window.location.reload()} onHardFix={() => { if(window.confirm("REBOOT_KERNEL?")) nukeDatabase().then(() => window.location.reload()); }} onOpenDebugger={() => setShowDebugger(true)} />
+            <SystemConfigWidget onSoftFix={() => window.location.reload()} onHardFix={handleRepairDatabase} onOpenDebugger={() => setShowDebugger(true)} onEvictNow={handleEvictNow} />
         </div>
     );
 };
\ No newline at end of file
@@ -15,7 +15,6 @@ import { PresetSaveModal } from './PresetSaveModal';
 interface LightPanelProps { // Changed interface name
   onRequest: (request: GenerationRequest) => void;
   isLoading: boolean;
-  setViewerInstruction: (text: string | null) => void;
   // isFastAiEnabled: boolean; // Removed, as model choice is now fixed
 }
 
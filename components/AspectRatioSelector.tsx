@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useContext } from 'react';
+import { AppContext } from '../context/AppContext';
+import { ASPECT_RATIO_CHOICES, OUTPUT_SIZES } from '../utils/aspectRatio';
+import { ModelTask } from '../services/modelCatalog';
+import { useTaskModel } from '../hooks/useTaskModel';
+
+interface AspectRatioSelectorProps {
+    disabled?: boolean;
+    activeClassName?: string; // Panel accent for the selected option
+    task?: ModelTask; // Whose model decides which options are offered
+}
+
+// Frame and output size live in AppContext, so switching panels keeps the same format
+export const AspectRatioSelector: React.FC<AspectRatioSelectorProps> = ({ disabled, activeClassName = 'bg-matrix border-matrix text-black', task = 'generate' }) => {
+    const { aspectRatio, setAspectRatio, outputSize, setOutputSize } = useContext(AppContext);
+    const { label, capabilities } = useTaskModel(task);
+    // 1K is what every image model renders when no size is requested
+    const supportsSize = (size: string) => size === '1K' || capabilities.outputSizes.some(s => s === size);
+    const supportsRatio = (ratio: string) => ratio === 'source' || capabilities.aspectRatios.includes(ratio);
+    const optionClass = (isActive: boolean) =>
+        `px-1.5 py-1 border text-[8px] font-black font-mono uppercase transition-all disabled:opacity-40 ${isActive ? activeClassName : 'bg-transparent border-white/10 text-white/40 hover:text-white'}`;
+
+    return (
+        <div className="flex items-center justify-between gap-2 mb-3">
+            <span className="text-[8px] font-mono font-black text-zinc-600 uppercase tracking-[0.3em]">Frame</span>
+            <div className="flex gap-1 flex-wrap justify-end">
+                {ASPECT_RATIO_CHOICES.map(ratio => (
+                    <button key={ratio} onClick={() => setAspectRatio(ratio)} disabled={disabled || !supportsRatio(ratio)} className={optionClass(aspectRatio === ratio)} title={!supportsRatio(ratio) ? `${label} cannot render ${ratio}` : ratio === 'source' ? 'Match Source' : ratio}>
+                        {ratio === 'source' ? 'SRC' : ratio}
+                    </button>
+                ))}
+                <div className="w-px bg-white/10 mx-1" />
+                {OUTPUT_SIZES.map(size => (
+                    <button key={size} onClick={() => setOutputSize(size)} disabled={disabled || !supportsSize(size)} className={optionClass(outputSize === size && supportsSize(size))} title={supportsSize(size) ? size : `${label} renders at a fixed size`}>
+                        {size}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+
+export const BATCH_SIZES = [1, 2, 4] as const;
+
+interface BatchSelectorProps {
+    value: number;
+    onChange: (size: number) => void;
+    disabled?: boolean;
+    activeClassName?: string; // Panel accent for the selected count
+}
+
+export const BatchSelector: React.FC<BatchSelectorProps> = ({ value, onChange, disabled, activeClassName = 'bg-matrix border-matrix text-black' }) => (
+    <div className="flex items-center justify-between mb-3">
+        <span className="text-[8px] font-mono font-black text-zinc-600 uppercase tracking-[0.3em]">Variants</span>
+        <div className="flex gap-1">
+            {BATCH_SIZES.map(size => (
+                <button
+                    key={size}
+                    onClick={() => onChange(size)}
+                    disabled={disabled}
+                    className={`w-8 py-1 border text-[8px] font-black font-mono uppercase transition-all disabled:opacity-40 ${value === size ? activeClassName : 'bg-transparent border-white/10 text-white/40 hover:text-white'}`}
+                >
+                    x{size}
+                </button>
+            ))}
+        </div>
+    </div>
+);
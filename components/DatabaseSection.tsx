@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { DownloadIcon, TrashIcon } from './icons';
+import { checkIntegrity, repairDatabase, loadMigrationBackupInfo, exportMigrationBackup, deleteMigrationBackup, IntegrityReport, MigrationBackup } from '../services/persistence';
+import { DB_VERSION } from '../services/dbSchema';
+
+const linkClass = "text-[7px] font-mono uppercase tracking-widest transition-colors disabled:opacity-30";
+
+// Schema version, integrity scan, quarantine repair and the pre-migration backup
+export const DatabaseSection: React.FC = () => {
+    const [report, setReport] = useState<IntegrityReport | null>(null);
+    const [backup, setBackup] = useState<Omit<MigrationBackup, 'stores'> | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [status, setStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        loadMigrationBackupInfo().then(setBackup).catch(() => setBackup(null));
+    }, []);
+
+    const run = async (task: () => Promise<IntegrityReport>, describe: (r: IntegrityReport) => { tone: 'ok' | 'error'; text: string }) => {
+        setIsBusy(true);
+        try {
+            const result = await task();
+            setReport(result);
+            setStatus(describe(result));
+        } catch (e) {
+            setStatus({ tone: 'error', text: `Scan failed: ${e instanceof Error ? e.message : String(e)}` });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCheck = () => run(checkIntegrity, r => r.issues.length > 0
+        ? { tone: 'error', text: `${r.issues.length} corrupt record(s). Repair moves them to quarantine.` }
+        : { tone: 'ok', text: 'All records valid.' });
+
+    const handleRepair = () => {
+        if (!window.confirm("Move every corrupt record to quarantine?")) return;
+        run(repairDatabase, r => ({ tone: 'ok', text: r.issues.length > 0 ? `${r.issues.length} record(s) quarantined.` : 'Nothing to repair.' }));
+    };
+
+    const handleBackup = async () => {
+        const blob = await exportMigrationBackup().catch(() => null);
+        if (!blob || !backup) return setStatus({ tone: 'error', text: 'Backup unavailable.' });
+        const url = URL.createObjectURL(blob);
+        const anchor = document.createElement('a');
+        anchor.href = url;
+        anchor.download = `pixshop_db_v${backup.fromVersion}_${backup.createdAt}.json`;
+        anchor.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleDeleteBackup = async () => {
+        if (!window.confirm("Delete the pre-migration backup?")) return;
+        await deleteMigrationBackup();
+        setBackup(null);
+        setStatus({ tone: 'ok', text: 'Backup deleted.' });
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block font-black">Database</label>
+                <div className="flex gap-3">
+                    <button onClick={handleCheck} disabled={isBusy} className={`${linkClass} text-white/40 hover:text-white`}>Check</button>
+                    <button onClick={handleRepair} disabled={isBusy} className={`${linkClass} text-white/40 hover:text-amber-400`}>Repair</button>
+                </div>
+            </div>
+            <span className="block text-[7px] font-mono text-white/40 uppercase tracking-widest">
+                Schema v{DB_VERSION}{report ? ` / ${report.records} records / ${report.quarantined} quarantined` : ''}
+            </span>
+            {report && report.issues.length > 0 && (
+                <ul className="mt-2 space-y-0.5 max-h-20 overflow-y-auto no-scrollbar">
+                    {report.issues.map(issue => (
+                        <li key={`${issue.store}:${issue.key}`} className="text-[7px] font-mono text-red-400/80 truncate" title={issue.issue}>
+                            {issue.store} / {issue.key}: {issue.issue}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {backup && (
+                <div className="mt-2 flex gap-1">
+                    <button onClick={handleBackup} className="flex-1 flex items-center justify-center gap-2 py-1.5 border border-white/10 text-white/40 text-[7px] font-mono uppercase tracking-widest hover:text-white hover:border-white/30 transition-all rounded-sm">
+                        <DownloadIcon className="w-3 h-3" /> Pre-migration backup (v{backup.fromVersion}, {new Date(backup.createdAt).toLocaleDateString()})
+                    </button>
+                    <button onClick={handleDeleteBackup} title="Delete backup" className="px-2 border border-white/10 text-white/40 hover:text-red-500 hover:border-red-500/40 transition-all rounded-sm">
+                        <TrashIcon className="w-3 h-3" />
+                    </button>
+                </div>
+            )}
+            {status && (
+                <p className={`mt-2 text-[8px] font-mono uppercase tracking-widest ${status.tone === 'error' ? 'text-red-500' : 'text-matrix'}`}>{status.text}</p>
+            )}
+        </div>
+    );
+};
@@ -6,6 +6,7 @@
 
 import React, { useEffect, useState } from 'react';
 import { debugService, LogEntry } from '../services/debugService';
+import { progressService, ProgressEvent } from '../services/progressService';
 import { XIcon, TrashIcon, DownloadIcon } from './icons';
 
 interface DebugConsoleProps {
@@ -14,7 +15,8 @@ interface DebugConsoleProps {
 
 export const DebugConsole: React.FC<DebugConsoleProps> = ({ onClose }) => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [filter, setFilter] = useState<'all' | 'error' | 'warn'>('all');
+  const [filter, setFilter] = useState<'all' | 'error' | 'warn' | 'jobs'>('all');
+  const [jobEvents, setJobEvents] = useState<ProgressEvent[]>(progressService.getRecent());
 
   useEffect(() => {
     const unsubscribe = debugService.subscribe((updatedLogs) => {
@@ -23,6 +25,8 @@ export const DebugConsole: React.FC<DebugConsoleProps> = ({ onClose }) => {
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => progressService.subscribe(() => setJobEvents([...progressService.getRecent()])), []);
+
   const filteredLogs = logs.filter(log => {
     if (filter === 'all') return true;
     return log.type === filter;
@@ -76,7 +80,7 @@ export const DebugConsole: React.FC<DebugConsoleProps> = ({ onClose }) => {
 
       {/* Filters */}
       <div className="flex border-b border-green-900/30 bg-surface-panel">
-         {['all', 'error', 'warn'].map((f) => (
+         {['all', 'error', 'warn', 'jobs'].map((f) => (
              <button 
                 key={f} 
                 onClick={() => setFilter(f as any)}
@@ -89,7 +93,21 @@ export const DebugConsole: React.FC<DebugConsoleProps> = ({ onClose }) => {
 
       {/* Logs Area */}
       <div className="flex-1 overflow-y-auto p-2 space-y-1 overscroll-contain">
-         {filteredLogs.length === 0 ? (
+         {filter === 'jobs' ? (
+             jobEvents.map((event) => (
+                 <div key={`${event.jobId}_${event.timestamp}_${event.phase}`} className={`p-2 rounded-sm break-words font-mono ${getLogColor(event.phase === 'failed' ? 'error' : event.phase === 'cancelled' ? 'warn' : 'log')}`}>
+                     <div className="flex items-start gap-2">
+                        <span className="opacity-50 flex-shrink-0 text-[10px] pt-0.5">
+                            {formatTimestamp(event.timestamp)}
+                        </span>
+                        <span className="flex-1 whitespace-pre-wrap leading-relaxed">
+                            #{event.jobId} {event.operation} [{event.phase}{event.percent !== undefined ? ` ${event.percent}%` : ''}] {event.message || ''}
+                            <span className="opacity-50"> +{event.timestamp - event.startedAt}ms{event.model ? ` ${event.model}` : ''}{event.expectedMs ? ` ~${event.expectedMs}ms` : ''}</span>
+                        </span>
+                     </div>
+                 </div>
+             ))
+         ) : filteredLogs.length === 0 ? (
              <div className="h-full flex items-center justify-center text-green-900 uppercase tracking-widest opacity-50">
                  No Signal Detected
              </div>
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+
+interface EditControlsProps {
+    strength: number;
+    onStrengthChange: (value: number) => void;
+    chaos: number;
+    onChaosChange: (value: number) => void;
+    disabled?: boolean;
+    accentClassName?: string; // Text and slider accent of the host panel
+}
+
+// Shown by panels working on an existing image; values feed editStrength and chaosLevel
+export const EditControls: React.FC<EditControlsProps> = ({ strength, onStrengthChange, chaos, onChaosChange, disabled, accentClassName = 'text-matrix accent-matrix' }) => {
+    const sliders = [
+        { label: 'Edit_Strength', value: strength, onChange: onStrengthChange, min: 10 },
+        { label: 'Chaos', value: chaos, onChange: onChaosChange, min: 0 },
+    ];
+    return (
+        <div className="bg-white/[0.03] p-3 border border-white/5 mb-6 space-y-4">
+            {sliders.map(slider => (
+                <div key={slider.label}>
+                    <div className="flex justify-between mb-2 items-center">
+                        <h4 className="text-[8px] font-mono font-black text-zinc-600 uppercase tracking-[0.3em]">{slider.label}</h4>
+                        <span className={`text-sm font-display italic tracking-widest ${accentClassName}`}>{slider.value}%</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={slider.min} max="100"
+                        value={slider.value}
+                        disabled={disabled}
+                        onChange={(e) => slider.onChange(Number(e.target.value))}
+                        className={`w-full h-1 bg-white/10 appearance-none cursor-pointer disabled:opacity-40 ${accentClassName}`}
+                    />
+                </div>
+            ))}
+        </div>
+    );
+};
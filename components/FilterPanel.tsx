@@ -6,8 +6,15 @@
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { GenerationRequest } from '../App';
+import { BatchSelector } from './BatchSelector';
+import { EditControls } from './EditControls';
+import { AspectRatioSelector } from './AspectRatioSelector';
 import { PaletteIcon, SparklesIcon, SaveIcon, TrashIcon } from './icons';
-import { refineImagePrompt, describeImageForPrompt, PROTOCOLS } from '../services/geminiService';
+import { PROTOCOLS } from '../services/geminiService';
+import { providerService } from '../services/providerService';
+import { progressService } from '../services/progressService';
+import { useTaskModel } from '../hooks/useTaskModel';
+import { useAbortSignal } from '../hooks/useAbortSignal';
 import { loadUserPresets, addUserPreset, deleteUserPreset } from '../services/persistence';
 import { PresetSaveModal } from './PresetSaveModal';
 
@@ -26,7 +33,6 @@ interface FilterPanelProps {
   hasImage: boolean;
   currentImageFile: File | null;
   initialPrompt?: string;
-  setViewerInstruction: (text: string | null) => void;
 }
 
 const basePresetGroups: Record<string, FilterPreset[]> = {
@@ -74,13 +80,18 @@ const basePresetGroups: Record<string, FilterPreset[]> = {
   ]
 };
 
-export const FilterPanel: React.FC<FilterPanelProps> = ({ onRequest, isLoading, hasImage, currentImageFile, initialPrompt, setViewerInstruction }) => {
+export const FilterPanel: React.FC<FilterPanelProps> = ({ onRequest, isLoading, hasImage, currentImageFile, initialPrompt }) => {
   const [userPrompt, setUserPrompt] = useState('');
   const [selectedPresetName, setSelectedPresetName] = useState<string>('');
   const [isRefining, setIsRefining] = useState(false);
   const [customPresets, setCustomPresets] = useState<any[]>([]);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
   const [useGoogleSearch, setUseGoogleSearch] = useState(false); // New state for Google Search grounding
+  const canGround = useTaskModel('edit').capabilities.searchGrounding;
+  const nextSignal = useAbortSignal();
+  const [batchSize, setBatchSize] = useState(1);
+  const [editStrength, setEditStrength] = useState(50);
+  const [chaosLevel, setChaosLevel] = useState(0);
 
   const loadPresets = useCallback(async () => {
     try {
@@ -106,13 +117,16 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ onRequest, isLoading,
 
   const allPresets = useMemo(() => Object.values(presetGroups).flat() as FilterPreset[], [presetGroups]);
 
-  const handleApply = async () => {
+  // Shift+Click skips the analysis cache
+  const handleApply = async (e?: React.MouseEvent) => {
     let effectiveSubject = userPrompt.trim();
     if (!effectiveSubject && currentImageFile) {
-        setViewerInstruction("ANALYZING_SOURCE_VISUALS...");
-        try { effectiveSubject = await describeImageForPrompt(currentImageFile); } 
-        catch (err) { effectiveSubject = "the primary subject"; }
-        finally { setViewerInstruction(null); }
+        const signal = nextSignal('describe');
+        try { effectiveSubject = await progressService.track('describe', job => providerService.getTextProvider('filters').describeImage(currentImageFile, job, signal, e?.shiftKey), "ANALYZING_SOURCE_VISUALS..."); } 
+        catch (err) {
+            if (signal.aborted) return; // Superseded or the panel closed; nothing to dispatch
+            effectiveSubject = "the primary subject";
+        }
     } else if (!effectiveSubject) effectiveSubject = "the primary subject";
 
     const preset = allPresets.find(p => p.name === selectedPresetName);
@@ -129,19 +143,19 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ onRequest, isLoading,
         prompt: prompt, 
         useOriginal: false, 
         systemInstructionOverride: PROTOCOLS.IMAGE_TRANSFORMER,
-        useGoogleSearch: useGoogleSearch // Pass grounding preference
+        useGoogleSearch: useGoogleSearch && canGround, // Pass grounding preference
+        batchSize,
+        editStrength,
+        chaosLevel
     });
   };
   
   const handleRefine = async () => {
     if (!userPrompt.trim() || isRefining) return;
     setIsRefining(true);
-    setViewerInstruction("REFINING_PROMPT_GRAMMAR...");
-    try { setUserPrompt(await refineImagePrompt(userPrompt)); } catch (e) {} 
-    finally { 
-      setIsRefining(false); 
-      setViewerInstruction(null);
-    }
+    const signal = nextSignal('refine');
+    try { setUserPrompt(await progressService.track('refine', job => providerService.getTextProvider('filters').refinePrompt(userPrompt, false, job, signal))); } catch (e) {} 
+    finally { setIsRefining(false); }
   };
 
   const handleSavePreset = async (name: string, desc: string) => {
@@ -207,13 +221,17 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ onRequest, isLoading,
                   <h4 className="text-[8px] font-mono font-black text-zinc-600 uppercase tracking-[0.3em]">Data_Link</h4>
                   <button 
                       onClick={() => setUseGoogleSearch(!useGoogleSearch)}
-                      className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[8px] uppercase tracking-widest font-black ${useGoogleSearch ? 'bg-matrix border-matrix text-white shadow-neon-matrix' : 'bg-transparent border-white/10 text-white/40'}`}
+                      disabled={!canGround}
+                      title={canGround ? undefined : "The selected edit model has no search grounding"}
+                      className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[8px] uppercase tracking-widest font-black disabled:opacity-30 ${useGoogleSearch && canGround ? 'bg-matrix border-matrix text-white shadow-neon-matrix' : 'bg-transparent border-white/10 text-white/40'}`}
                   >
                       <span>Neural_Ground</span>
                   </button>
               </div>
           </div>
 
+          <EditControls strength={editStrength} onStrengthChange={setEditStrength} chaos={chaosLevel} onChaosChange={setChaosLevel} disabled={isLoading} accentClassName="text-filter accent-filter" />
+
           <div className="space-y-8 pb-20"> {/* Increased space-y to give more room between groups */}
             {Object.entries(presetGroups).map(([groupName, presets]) => (
                 <div key={groupName} className="w-full">
@@ -251,7 +269,9 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ onRequest, isLoading,
       </div>
 
       <div className="p-4 border-t border-white/5 bg-zinc-950/60 shrink-0 relative z-10 backdrop-blur-md">
-          <button onClick={handleApply} disabled={isLoading || (!selectedPresetName && !userPrompt.trim())} className="execute-btn group hover:border-filter transition-colors">
+          <AspectRatioSelector disabled={isLoading} activeClassName="bg-filter border-filter text-white" task="edit" />
+          <BatchSelector value={batchSize} onChange={setBatchSize} disabled={isLoading} activeClassName="bg-filter border-filter text-white" />
+          <button onClick={handleApply} title="Shift+Click re-analyzes the source, bypassing the analysis cache" disabled={isLoading || (!selectedPresetName && !userPrompt.trim())} className="execute-btn group hover:border-filter transition-colors">
               <span className={`font-black italic uppercase tracking-[0.2em] text-[10px] transition-colors ${isLoading ? 'text-zinc-500' : 'text-zinc-500 group-hover:text-filter'}`}>
                   {isLoading ? 'Synthesizing...' : 'Apply Filter'}
               </span>
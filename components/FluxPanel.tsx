@@ -7,8 +7,14 @@
 
 import React, { useState } from 'react';
 import { SparklesIcon, BoltIcon } from './icons';
-import { refineImagePrompt, describeImageForPrompt } from '../services/geminiService';
+import { providerService } from '../services/providerService';
+import { progressService } from '../services/progressService';
+import { useTaskModel } from '../hooks/useTaskModel';
+import { useAbortSignal } from '../hooks/useAbortSignal';
 import { GenerationRequest } from '../App';
+import { BatchSelector } from './BatchSelector';
+import { EditControls } from './EditControls';
+import { AspectRatioSelector } from './AspectRatioSelector';
 
 interface FluxPanelProps {
   onRequest: (request: GenerationRequest) => void;
@@ -18,7 +24,6 @@ interface FluxPanelProps {
   fluxPrompt: string;
   setFluxPrompt: (prompt: string) => void;
   // isFastAiEnabled: boolean; // Removed, as model choice is now fixed
-  setViewerInstruction: (text: string | null) => void;
 }
 
 const STYLE_PRESETS = {
@@ -45,27 +50,31 @@ const STYLE_PRESETS = {
 
 export const FluxPanel: React.FC<FluxPanelProps> = ({ 
     onRequest, isLoading, hasImage, currentImageFile,
-    fluxPrompt, setFluxPrompt, setViewerInstruction
+    fluxPrompt, setFluxPrompt
 }) => {
   const [isRefining, setIsRefining] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedStyle, setSelectedStyle] = useState("default");
   const [deepLogic, setDeepLogic] = useState(false);
   const [useGoogleSearch, setUseGoogleSearch] = useState(false); // New state for Google Search grounding
+  const canThink = useTaskModel('refine').capabilities.thinking;
+  const canGround = useTaskModel('generate').capabilities.searchGrounding;
+  const [batchSize, setBatchSize] = useState(1);
+  const [editStrength, setEditStrength] = useState(60);
+  const [chaosLevel, setChaosLevel] = useState(0);
+  const nextSignal = useAbortSignal();
 
-  const handleAction = async (forceNew: boolean) => {
+  const handleAction = async (forceNew: boolean, bypassCache?: boolean) => {
     let effectivePrompt = fluxPrompt.trim();
     const style = STYLE_PRESETS[selectedStyle as keyof typeof STYLE_PRESETS];
     
     if (hasImage && !effectivePrompt && currentImageFile) {
         setIsAnalyzing(true);
-        setViewerInstruction("ANALYZING_VISUAL_SEED...");
-        try { effectivePrompt = await describeImageForPrompt(currentImageFile); } 
+        const signal = nextSignal('describe');
+        try { effectivePrompt = await progressService.track('describe', job => providerService.getTextProvider('flux').describeImage(currentImageFile, job, signal, bypassCache), "ANALYZING_VISUAL_SEED..."); } 
         catch (e) { effectivePrompt = "urban transformation"; }
-        finally { 
-            setIsAnalyzing(false); 
-            setViewerInstruction(null);
-        }
+        finally { setIsAnalyzing(false); }
+        if (signal.aborted) return;
     }
 
     const finalPrompt = style.suffix ? `${effectivePrompt}, ${style.suffix}` : effectivePrompt;
@@ -74,23 +83,22 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
         type: 'flux', 
         prompt: finalPrompt, 
         forceNew, 
-        aspectRatio: '1:1',
-        useGoogleSearch: useGoogleSearch // Pass grounding preference
+        useGoogleSearch: useGoogleSearch && canGround, // Pass grounding preference
+        batchSize,
+        editStrength,
+        chaosLevel
     });
   };
 
   const handleRefine = async () => {
     if (!fluxPrompt.trim() || isRefining) return;
     setIsRefining(true);
-    setViewerInstruction("REFINING_PROMPT_GRAMMAR...");
+    const signal = nextSignal('refine');
     try {
-      const refined = await refineImagePrompt(fluxPrompt, deepLogic);
+      const refined = await progressService.track('refine', job => providerService.getTextProvider('flux').refinePrompt(fluxPrompt, deepLogic && canThink, job, signal));
       setFluxPrompt(refined);
     } catch (e) {} 
-    finally { 
-      setIsRefining(false); 
-      setViewerInstruction(null);
-    }
+    finally { setIsRefining(false); }
   };
 
   return (
@@ -108,7 +116,9 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
                 </div>
                 <button 
                     onClick={() => setDeepLogic(!deepLogic)}
-                    className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[8px] uppercase tracking-widest font-black ${deepLogic ? 'bg-flux border-flux text-white shadow-neon-flux' : 'bg-transparent border-white/10 text-white/40'}`}
+                    disabled={!canThink}
+                    title={canThink ? undefined : "The selected refine model has no thinking mode"}
+                    className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[8px] uppercase tracking-widest font-black disabled:opacity-30 ${deepLogic && canThink ? 'bg-flux border-flux text-white shadow-neon-flux' : 'bg-transparent border-white/10 text-white/40'}`}
                 >
                     <span>Deep_Logic</span>
                 </button>
@@ -140,13 +150,17 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
                     <h4 className="text-[8px] font-mono font-black text-zinc-600 uppercase tracking-[0.3em]">Data_Link</h4>
                     <button 
                         onClick={() => setUseGoogleSearch(!useGoogleSearch)}
-                        className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[8px] uppercase tracking-widest font-black ${useGoogleSearch ? 'bg-matrix border-matrix text-white shadow-neon-matrix' : 'bg-transparent border-white/10 text-white/40'}`}
+                        disabled={!canGround}
+                        title={canGround ? undefined : "The selected image model has no search grounding"}
+                        className={`flex items-center gap-2 px-3 py-1.5 border transition-all text-[8px] uppercase tracking-widest font-black disabled:opacity-30 ${useGoogleSearch && canGround ? 'bg-matrix border-matrix text-white shadow-neon-matrix' : 'bg-transparent border-white/10 text-white/40'}`}
                     >
                         <span>Neural_Ground</span>
                     </button>
                 </div>
             </div>
 
+            {hasImage && <EditControls strength={editStrength} onStrengthChange={setEditStrength} chaos={chaosLevel} onChaosChange={setChaosLevel} disabled={isLoading} accentClassName="text-flux accent-flux" />}
+
             <div>
                  <h4 className="panel-label mb-3">Aesthetic_Selection</h4>
                  {/* New: Wrapped preset grid in a box */}
@@ -171,7 +185,9 @@ export const FluxPanel: React.FC<FluxPanelProps> = ({
         </div>
 
         <div className="p-4 border-t border-white/5 bg-zinc-950/60 shrink-0 relative z-10 backdrop-blur-md">
-            <button onClick={() => handleAction(true)} disabled={isLoading || isAnalyzing} className="execute-btn group hover:border-flux transition-colors">
+            <AspectRatioSelector disabled={isLoading} activeClassName="bg-flux border-flux text-white" />
+            <BatchSelector value={batchSize} onChange={setBatchSize} disabled={isLoading} activeClassName="bg-flux border-flux text-white" />
+            <button onClick={(e) => handleAction(true, e.shiftKey)} title="Shift+Click re-analyzes the source, bypassing the analysis cache" disabled={isLoading || isAnalyzing} className="execute-btn group hover:border-flux transition-colors">
                 <span className={`font-black italic uppercase tracking-[0.2em] text-[10px] transition-colors ${isLoading ? 'text-zinc-500' : 'text-zinc-500 group-hover:text-flux'}`}>
                     {isLoading ? 'Calibrating...' : 'Execute Flux'}
                 </span>
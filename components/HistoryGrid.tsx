@@ -6,20 +6,28 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useMemo } from 'react';
-import { XIcon, HistoryIcon } from './icons';
-import { HistoryItem } from '../App';
+import React, { useEffect, useMemo, useState } from 'react';
+import { XIcon, HistoryIcon, AlertIcon, CopyIcon, StarIcon } from './icons';
+import { BlockedAttempt, HistoryItem } from '../App';
+import { usageService } from '../services/usageService';
+import { pathTo, toBranches } from '../utils/historyTree';
 
 interface HistoryGridProps {
     history: HistoryItem[];
-    setHistoryIndex: (index: number) => void;
+    currentId: string | null;
+    blocked: BlockedAttempt[];
+    initialBlockedId?: string | null; // Opens the details drawer on this attempt
+    onSelect: (id: string) => void;
+    onToggleStar: (id: string) => void;
     onClose: () => void;
 }
 
-const getImageUrl = (item: File | string): string => {
-    if (typeof item === 'string') return item;
-    return URL.createObjectURL(item);
-};
+const PROBABILITY_WIDTH: Record<string, string> = { NEGLIGIBLE: '8%', LOW: '35%', MEDIUM: '65%', HIGH: '100%' };
+
+const formatCategory = (category: string) => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ');
+
+const seqLabel = (seq: number) => `#SEQ_${seq.toString().padStart(3, '0')}`;
+
 
 const TypeBadge: React.FC<{ type: HistoryItem['type'] }> = ({ type }) => {
     const colors = {
@@ -35,15 +43,179 @@ const TypeBadge: React.FC<{ type: HistoryItem['type'] }> = ({ type }) => {
     );
 };
 
-export const HistoryGrid: React.FC<HistoryGridProps> = ({ history, setHistoryIndex, onClose }) => {
+const BlockedDrawer: React.FC<{ attempt: BlockedAttempt; onClose: () => void }> = ({ attempt, onClose }) => {
+    const { details } = attempt;
+    return (
+        <aside className="absolute top-0 right-0 bottom-0 w-full max-w-md z-20 bg-zinc-950/95 border-l border-red-500/40 shadow-[0_0_60px_rgba(239,68,68,0.2)] flex flex-col animate-fade-in">
+            <div className="p-5 border-b border-zinc-800 flex items-center justify-between">
+                <div>
+                    <p className="text-[9px] font-mono text-red-400 uppercase tracking-[0.4em] font-black">Safety_Block // {details.reason}</p>
+                    <p className="text-[8px] font-mono text-zinc-500 uppercase tracking-widest mt-1">{new Date(attempt.timestamp).toLocaleString()}</p>
+                </div>
+                <button onClick={onClose} className="p-2 text-zinc-500 hover:text-white transition-colors"><XIcon className="w-5 h-5" /></button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-5 space-y-6 no-scrollbar">
+                <dl className="grid grid-cols-2 gap-3 text-[9px] font-mono uppercase">
+                    <div><dt className="text-zinc-600 tracking-widest">Panel</dt><dd className="text-white font-bold">{attempt.panel}</dd></div>
+                    <div><dt className="text-zinc-600 tracking-widest">Model</dt><dd className="text-white font-bold truncate">{details.model || 'unknown'}</dd></div>
+                    <div><dt className="text-zinc-600 tracking-widest">Stage</dt><dd className="text-white font-bold">{details.stage === 'prompt' ? 'Prompt rejected' : 'Output withheld'}</dd></div>
+                    <div><dt className="text-zinc-600 tracking-widest">Reason</dt><dd className="text-red-400 font-bold">{details.reason}</dd></div>
+                </dl>
+
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-[9px] font-mono text-zinc-500 uppercase tracking-[0.3em] font-black">Prompt</span>
+                        {attempt.prompt && (
+                            <button onClick={() => navigator.clipboard?.writeText(attempt.prompt!).catch(() => {})} className="flex items-center gap-1 text-[8px] font-mono text-zinc-500 hover:text-white uppercase tracking-widest transition-colors">
+                                <CopyIcon className="w-3 h-3" /> Copy
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-[10px] font-mono text-zinc-300 leading-relaxed bg-black/40 border border-zinc-800 p-3 whitespace-pre-wrap break-words">{attempt.prompt || '(no prompt)'}</p>
+                    {attempt.negativePrompt && (
+                        <p className="text-[9px] font-mono text-zinc-500 mt-2 break-words"><span className="uppercase tracking-widest">Negative:</span> {attempt.negativePrompt}</p>
+                    )}
+                </div>
+
+                <div>
+                    <span className="text-[9px] font-mono text-zinc-500 uppercase tracking-[0.3em] font-black block mb-3">Safety_Ratings</span>
+                    {details.ratings.length === 0 ? (
+                        <p className="text-[9px] font-mono text-zinc-600 uppercase tracking-widest">No per-category ratings returned for this block.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            {details.ratings.map(rating => (
+                                <div key={rating.category}>
+                                    <div className="flex justify-between text-[8px] font-mono uppercase tracking-widest mb-1">
+                                        <span className={rating.blocked ? 'text-red-400 font-black' : 'text-zinc-400'}>{formatCategory(rating.category)}{rating.blocked ? ' // BLOCKED' : ''}</span>
+                                        <span className="text-zinc-500">{rating.probability}</span>
+                                    </div>
+                                    <div className="h-1 bg-zinc-800">
+                                        <div className={`h-full ${rating.blocked ? 'bg-red-500' : 'bg-zinc-500'}`} style={{ width: PROBABILITY_WIDTH[rating.probability] || '0%' }} />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </aside>
+    );
+};
+
+const NodeCard: React.FC<{ item: HistoryItem; url?: string; seq: number; isCurrent: boolean; onPath: boolean; onSelect: () => void; onToggleStar: () => void }> = ({ item, url, seq, isCurrent, onPath, onSelect, onToggleStar }) => (
+    <div 
+        className={`relative w-48 shrink-0 flex flex-col bg-zinc-900/40 border group cursor-pointer hover:border-primary transition-all active:scale-[0.98] shadow-md hover:-translate-y-2 ${isCurrent ? 'border-primary shadow-[0_0_20px_rgba(0,255,157,0.25)]' : onPath ? 'border-primary/40' : 'border-zinc-800'}`}
+        onClick={onSelect}
+    >
+        <div className="aspect-square relative overflow-hidden bg-black/20">
+            {url && (
+                <img 
+                    src={url} 
+                    alt={`Sequence ${seq}`} 
+                    className="w-full h-full object-contain group-hover:scale-105 transition-transform duration-700" 
+                />
+            )}
+            <div className="absolute inset-0 bg-primary/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                <div className="px-4 py-2 bg-primary text-black border-2 border-primary text-[10px] font-black uppercase tracking-widest skew-x-[-10deg]">{isCurrent ? 'Current' : 'Continue Here'}</div>
+            </div>
+            <div className="absolute top-3 left-3 flex gap-1">
+                <TypeBadge type={item.type} />
+                {item.downscaled && <span className="px-2 py-0.5 rounded-none text-[8px] font-mono border uppercase tracking-widest bg-zinc-500/20 text-zinc-400 border-zinc-500/30" title="Downscaled by the storage policy">thumb</span>}
+            </div>
+            <button
+                onClick={(e) => { e.stopPropagation(); onToggleStar(); }}
+                title={item.starred ? "Starred: kept at full size" : "Star to exempt from eviction"}
+                className={`absolute top-2 right-2 p-1.5 bg-black/60 border transition-all ${item.starred ? 'border-amber-400/60 text-amber-400' : 'border-white/10 text-white/40 opacity-0 group-hover:opacity-100 hover:text-amber-400'}`}
+            >
+                <StarIcon className={`w-3.5 h-3.5 ${item.starred ? 'fill-current' : ''}`} />
+            </button>
+        </div>
+        <div className="p-4 border-t border-zinc-700 space-y-2">
+            <div className="flex justify-between items-center text-[9px] font-mono">
+                <span className={`font-black ${isCurrent ? 'text-primary' : 'text-zinc-400'}`}>{seqLabel(seq)}</span>
+                <span className="text-zinc-600 font-bold">{new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </div>
+            {item.prompt && (
+                <p className="text-[10px] text-zinc-500 line-clamp-2 italic font-mono leading-tight group-hover:text-white transition-colors">
+                    "{item.prompt}"
+                </p>
+            )}
+            {item.usage && (
+                <div className="flex justify-between items-center text-[8px] font-mono text-zinc-600 uppercase">
+                    <span>{item.usage.totalTokens.toLocaleString()} tok</span>
+                    <span>${usageService.estimateCost(item.usage).toFixed(4)}</span>
+                </div>
+            )}
+            {item.groundingUrls && item.groundingUrls.length > 0 && (
+                <div className="mt-2 pt-2 border-t border-zinc-800 flex flex-wrap gap-1">
+                    <span className="text-[7px] font-mono text-matrix uppercase tracking-widest font-bold">Sources:</span>
+                    {item.groundingUrls.map((link, idx) => (
+                        <a 
+                            key={idx} 
+                            href={link.uri} 
+                            target="_blank" 
+                            rel="noopener noreferrer" 
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-[7px] font-mono text-blue-400 hover:text-blue-200 underline truncate max-w-[100px]"
+                        >
+                            {link.title || link.uri}
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    </div>
+);
+
+const BlockedCard: React.FC<{ attempt: BlockedAttempt; isInspected: boolean; onInspect: () => void }> = ({ attempt, isInspected, onInspect }) => (
+    <div
+        className={`relative flex flex-col bg-red-950/20 border group cursor-pointer hover:border-red-500 transition-all active:scale-[0.98] shadow-md hover:-translate-y-2 ${isInspected ? 'border-red-500' : 'border-red-900/60'}`}
+        onClick={onInspect}
+    >
+        <div className="aspect-square relative flex flex-col items-center justify-center gap-3 bg-black/30">
+            <AlertIcon className="w-10 h-10 text-red-500/70" />
+            <span className="text-[9px] font-mono text-red-400 uppercase tracking-[0.3em] font-black">{attempt.details.reason}</span>
+            <div className="absolute top-3 left-3">
+                <span className="px-2 py-0.5 rounded-none text-[8px] font-mono border uppercase tracking-widest bg-red-500/20 text-red-400 border-red-500/30">blocked</span>
+            </div>
+        </div>
+        <div className="p-4 border-t border-red-900/40 space-y-2">
+            <div className="flex justify-between items-center text-[9px] font-mono">
+                <span className="text-zinc-400 font-black uppercase">{attempt.panel}</span>
+                <span className="text-zinc-600 font-bold">{new Date(attempt.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </div>
+            {attempt.prompt && (
+                <p className="text-[10px] text-zinc-500 line-clamp-2 italic font-mono leading-tight group-hover:text-white transition-colors">
+                    "{attempt.prompt}"
+                </p>
+            )}
+        </div>
+    </div>
+);
+
+export const HistoryGrid: React.FC<HistoryGridProps> = ({ history, currentId, blocked, initialBlockedId, onSelect, onToggleStar, onClose }) => {
+    const [inspectId, setInspectId] = useState<string | null>(initialBlockedId || null);
 
-    const historyItemsWithUrls = useMemo(() => {
-        return history.map((item, index) => ({
-            ...item,
-            url: getImageUrl(item.content),
-            originalIndex: index
-        })).reverse();
+    // Sequence numbers follow creation order, so they stay stable as branches grow
+    const seqById = useMemo(() => new Map(history.map((item, index) => [item.id, index])), [history]);
+    const [urlById, setUrlById] = useState<Map<string, string>>(new Map());
+    // Object URLs live exactly as long as the history they were made for; autosave and eviction replace it often
+    useEffect(() => {
+        const created: string[] = [];
+        setUrlById(new Map(history.map(item => {
+            if (typeof item.content === 'string') return [item.id, item.content];
+            const url = URL.createObjectURL(item.content);
+            created.push(url);
+            return [item.id, url];
+        })));
+        return () => created.forEach(url => URL.revokeObjectURL(url));
     }, [history]);
+    const branches = useMemo(() => toBranches(history), [history]);
+    const activePath = useMemo(() => new Set(pathTo(history, currentId).map(item => item.id)), [history, currentId]);
+    const newestBlocked = useMemo(() => [...blocked].reverse(), [blocked]);
+
+    const inspected = blocked.find(b => b.id === inspectId);
+    const isEmpty = history.length === 0 && blocked.length === 0;
 
     return (
         <div className="fixed inset-0 z-[500] bg-surface-panel/95 backdrop-blur-md flex flex-col animate-fade-in overflow-hidden pt-[env(safe-area-inset-top)] text-zinc-100">
@@ -73,7 +245,7 @@ export const HistoryGrid: React.FC<HistoryGridProps> = ({ history, setHistoryInd
             </header>
 
             <div className="flex-1 overflow-y-auto p-6 md:p-10 no-scrollbar relative z-10">
-                {historyItemsWithUrls.length === 0 ? (
+                {isEmpty ? (
                     <div className="h-full flex flex-col items-center justify-center p-8 text-center bg-zinc-800/30 rounded-lg border border-zinc-700">
                         <div className="w-24 h-24 bg-zinc-900/50 rounded-full flex items-center justify-center mb-6">
                             <HistoryIcon className="w-12 h-12 text-zinc-500" />
@@ -86,62 +258,49 @@ export const HistoryGrid: React.FC<HistoryGridProps> = ({ history, setHistoryInd
                         </p>
                     </div>
                 ) : (
-                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-8">
-                        {historyItemsWithUrls.map((item) => (
-                            <div 
-                                key={item.timestamp + '-' + item.originalIndex}
-                                className="relative flex flex-col bg-zinc-900/40 border border-zinc-800 group cursor-pointer hover:border-primary transition-all active:scale-[0.98] shadow-md hover:-translate-y-2"
-                                onClick={() => { setHistoryIndex(item.originalIndex); onClose(); }}
-                            >
-                                <div className="aspect-square relative overflow-hidden bg-black/20">
-                                    <img 
-                                        src={item.url} 
-                                        alt={`Sequence ${item.originalIndex}`} 
-                                        className="w-full h-full object-contain group-hover:scale-105 transition-transform duration-700" 
-                                    />
-                                    <div className="absolute inset-0 bg-primary/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                                        <div className="px-4 py-2 bg-primary text-black border-2 border-primary text-[10px] font-black uppercase tracking-widest skew-x-[-10deg]">Restore Seq</div>
-                                    </div>
-                                    <div className="absolute top-3 left-3">
-                                        <TypeBadge type={item.type} />
-                                    </div>
-                                </div>
-                                <div className="p-4 border-t border-zinc-700 space-y-2">
-                                    <div className="flex justify-between items-center text-[9px] font-mono">
-                                        <span className="text-zinc-400 font-black">#SEQ_{item.originalIndex.toString().padStart(3, '0')}</span>
-                                        <span className="text-zinc-600 font-bold">{new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                                    </div>
-                                    {item.prompt && (
-                                        <p className="text-[10px] text-zinc-500 line-clamp-2 italic font-mono leading-tight group-hover:text-white transition-colors">
-                                            "{item.prompt}"
-                                        </p>
-                                    )}
-                                    {item.groundingUrls && item.groundingUrls.length > 0 && (
-                                        <div className="mt-2 pt-2 border-t border-zinc-800 flex flex-wrap gap-1">
-                                            <span className="text-[7px] font-mono text-matrix uppercase tracking-widest font-bold">Sources:</span>
-                                            {item.groundingUrls.map((link, idx) => (
-                                                <a 
-                                                    key={idx} 
-                                                    href={link.uri} 
-                                                    target="_blank" 
-                                                    rel="noopener noreferrer" 
-                                                    className="text-[7px] font-mono text-blue-400 hover:text-blue-200 underline truncate max-w-[100px]"
-                                                >
-                                                    {link.title || link.uri}
-                                                </a>
-                                            ))}
-                                        </div>
-                                    )}
+                    <div className="space-y-10">
+                        {branches.map(branch => (
+                            <section key={branch.nodes[0].id}>
+                                <p className="text-[9px] font-mono uppercase tracking-[0.4em] font-black mb-3 text-zinc-600">
+                                    {branch.forkFrom ? <>Branch <span className="text-zinc-400">from {seqLabel(seqById.get(branch.forkFrom.id)!)}</span></> : 'Root'}
+                                </p>
+                                <div className="flex items-start gap-3 overflow-x-auto no-scrollbar pb-3 pt-2">
+                                    {branch.nodes.map((item, i) => (
+                                        <React.Fragment key={item.id}>
+                                            {i > 0 && <div className={`self-center w-6 h-px shrink-0 ${activePath.has(item.id) ? 'bg-primary' : 'bg-zinc-700'}`} />}
+                                            <NodeCard
+                                                item={item}
+                                                url={urlById.get(item.id)}
+                                                seq={seqById.get(item.id)!}
+                                                isCurrent={item.id === currentId}
+                                                onPath={activePath.has(item.id)}
+                                                onSelect={() => onSelect(item.id)}
+                                                onToggleStar={() => onToggleStar(item.id)}
+                                            />
+                                        </React.Fragment>
+                                    ))}
                                 </div>
-                            </div>
+                            </section>
                         ))}
+
+                        {newestBlocked.length > 0 && (
+                            <section>
+                                <p className="text-[9px] font-mono uppercase tracking-[0.4em] font-black mb-3 text-red-500/70">Safety_Blocks</p>
+                                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-8">
+                                    {newestBlocked.map(attempt => (
+                                        <BlockedCard key={attempt.id} attempt={attempt} isInspected={inspectId === attempt.id} onInspect={() => setInspectId(attempt.id)} />
+                                    ))}
+                                </div>
+                            </section>
+                        )}
                     </div>
                 )}
             </div>
+            {inspected && <BlockedDrawer attempt={inspected} onClose={() => setInspectId(null)} />}
             
             <footer className="p-6 bg-surface-elevated/80 border-t border-zinc-700 text-center relative z-10 pb-[calc(1.5rem+env(safe-area-inset-bottom))]">
                 <p className="text-[9px] font-mono text-zinc-600 uppercase tracking-[0.8em] font-black">
-                    Neural Archive Terminal • {history.length} Sequences Cached
+                    Neural Archive Terminal • {history.length} Sequences Cached{branches.length > 1 ? ` • ${branches.length} Branches` : ''}{blocked.length > 0 ? ` • ${blocked.length} Blocked` : ''}
                 </p>
             </footer>
         </div>
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { keyVault, KeyInfo } from '../services/keyVault';
+import { providerService } from '../services/providerService';
+import { normalizeError } from '../services/errors';
+
+interface KeyForm {
+    provider: string;
+    name: string;
+    secret: string;
+    passphrase: string;
+    replaceId?: string; // Set while rotating an existing key
+    sealed?: boolean;   // The key being rotated is encrypted, so its replacement must be too
+}
+
+const inputClass = "w-full bg-black border border-white/10 text-[9px] font-mono text-white px-2 py-1.5 focus:outline-none focus:border-matrix";
+const linkClass = "text-[7px] font-mono uppercase tracking-widest transition-colors";
+
+// Key entry, validation and rotation for every provider that reads keys from the vault
+export const KeyVaultSection: React.FC = () => {
+    const providers = providerService.listImageProviders().filter(p => p.validateKey);
+    const [keys, setKeys] = useState<KeyInfo[]>([]);
+    const [form, setForm] = useState<KeyForm | null>(null);
+    const [status, setStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        const refresh = () => keyVault.list().then(setKeys).catch(() => setKeys([]));
+        refresh();
+        return keyVault.subscribe(refresh);
+    }, []);
+
+    const openForm = (key?: KeyInfo) => {
+        setStatus(null);
+        setForm({ provider: key?.provider || providers[0]?.id || 'gemini', name: key?.name || '', secret: '', passphrase: '', replaceId: key?.id, sealed: key?.encrypted });
+    };
+
+    const handleSave = async () => {
+        if (!form || !form.secret.trim() || (form.sealed && !form.passphrase)) return;
+        const provider = providers.find(p => p.id === form.provider);
+        setIsBusy(true);
+        setStatus({ tone: 'ok', text: 'Testing key...' });
+        try {
+            await provider?.validateKey?.(form.secret.trim());
+            await keyVault.save({ provider: form.provider, name: form.name, secret: form.secret, passphrase: form.passphrase || undefined }, form.replaceId);
+            setStatus({ tone: 'ok', text: form.replaceId ? 'Key rotated.' : 'Key verified and stored.' });
+            setForm(null);
+        } catch (e) {
+            setStatus({ tone: 'error', text: normalizeError(e).userMessage });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleUnlock = async (key: KeyInfo) => {
+        const passphrase = window.prompt(`Passphrase for "${key.name}"`);
+        if (!passphrase) return;
+        try {
+            await keyVault.unlock(key.id, passphrase);
+            setStatus({ tone: 'ok', text: `"${key.name}" unlocked for this session.` });
+        } catch (e) {
+            setStatus({ tone: 'error', text: normalizeError(e).userMessage });
+        }
+    };
+
+    const handleDelete = async (key: KeyInfo) => {
+        if (!window.confirm(`Delete key "${key.name}"?`)) return;
+        await keyVault.remove(key.id).catch(e => setStatus({ tone: 'error', text: normalizeError(e).userMessage }));
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-3">
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block font-black">Key_Vault</label>
+                <div className="flex gap-3">
+                    {keys.some(k => k.encrypted && k.unlocked) && (
+                        <button onClick={() => keyVault.lock()} className={`${linkClass} text-white/40 hover:text-white`}>Lock</button>
+                    )}
+                    <button onClick={() => form ? setForm(null) : openForm()} className={`${linkClass} ${form ? 'text-matrix' : 'text-white/40 hover:text-white'}`}>{form ? 'Cancel' : 'Add'}</button>
+                </div>
+            </div>
+
+            {keys.length === 0 && !form && (
+                <p className="text-[8px] font-mono text-white/40 uppercase tracking-widest">No keys stored. Add one to use live providers.</p>
+            )}
+
+            <div className="space-y-1.5">
+                {keys.map(key => (
+                    <div key={key.id} className={`flex items-center gap-2 border px-2 py-1.5 ${key.active ? 'border-matrix/50 bg-matrix/5' : 'border-white/10'}`}>
+                        <div className="flex-1 min-w-0">
+                            <span className="block text-[9px] font-mono text-white truncate">{key.name}</span>
+                            <span className="block text-[7px] font-mono text-white/40 uppercase tracking-widest">
+                                {key.provider} / ****{key.hint}{key.encrypted ? (key.unlocked ? ' / unsealed' : ' / sealed') : ''}
+                            </span>
+                        </div>
+                        {key.encrypted && !key.unlocked && <button onClick={() => handleUnlock(key)} className={`${linkClass} text-amber-400 hover:text-white`}>Unlock</button>}
+                        {!key.active && <button onClick={() => keyVault.setActive(key.provider, key.id)} className={`${linkClass} text-white/40 hover:text-matrix`}>Use</button>}
+                        <button onClick={() => openForm(key)} className={`${linkClass} text-white/40 hover:text-white`}>Rotate</button>
+                        <button onClick={() => handleDelete(key)} className={`${linkClass} text-white/40 hover:text-red-500`}>Del</button>
+                    </div>
+                ))}
+            </div>
+
+            {form && (
+                <div className="mt-3 space-y-2 border-t border-white/10 pt-3">
+                    {providers.length > 1 && !form.replaceId && (
+                        <select value={form.provider} onChange={(e) => setForm({ ...form, provider: e.target.value })} className={inputClass}>
+                            {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                    )}
+                    <input type="text" placeholder="Name (e.g. Personal, Studio)" value={form.name} disabled={!!form.replaceId} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} />
+                    <input type="password" placeholder={form.replaceId ? "New API key" : "API key"} value={form.secret} onChange={(e) => setForm({ ...form, secret: e.target.value })} autoComplete="off" className={inputClass} />
+                    <input type="password" placeholder={form.sealed ? "Passphrase (required, key is encrypted)" : "Passphrase (optional, encrypts at rest)"} value={form.passphrase} onChange={(e) => setForm({ ...form, passphrase: e.target.value })} autoComplete="new-password" className={inputClass} />
+                    <button onClick={handleSave} disabled={isBusy || !form.secret.trim() || (form.sealed && !form.passphrase)} className="w-full py-2 border-2 border-matrix/40 text-matrix text-[8px] font-black uppercase tracking-widest hover:bg-matrix hover:text-black transition-all disabled:opacity-30 rounded-sm">
+                        {isBusy ? 'Testing...' : form.replaceId ? 'Test & Rotate' : 'Test & Save'}
+                    </button>
+                </div>
+            )}
+
+            {status && (
+                <p className={`mt-2 text-[8px] font-mono uppercase tracking-widest ${status.tone === 'error' ? 'text-red-500' : 'text-matrix'}`}>{status.text}</p>
+            )}
+        </div>
+    );
+};
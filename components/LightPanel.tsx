@@ -7,6 +7,9 @@
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { GenerationRequest } from '../App';
+import { BatchSelector } from './BatchSelector';
+import { EditControls } from './EditControls';
+import { AspectRatioSelector } from './AspectRatioSelector';
 import { SunIcon, SlidersIcon, SaveIcon, TrashIcon } from './icons';
 import { PROTOCOLS } from '../services/geminiService'; 
 import { loadUserPresets, addUserPreset, deleteUserPreset } from '../services/persistence';
@@ -15,7 +18,7 @@ import { PresetSaveModal } from './PresetSaveModal';
 interface LightPanelProps { 
   onRequest: (request: GenerationRequest) => void;
   isLoading: boolean;
-  setViewerInstruction: (text: string | null) => void;
+  initialPrompt?: string;
 }
 
 const PRESETS = [
@@ -35,11 +38,14 @@ const PRESETS = [
     { name: 'Glowstick Rave', description: 'Extreme neon highlights.', prompt: 'Extreme glowstick lighting, vibrant fluorescent highlights, deep dark shadows, high energy.' }
 ];
 
-export const LightPanel: React.FC<LightPanelProps> = ({ onRequest, isLoading }) => { 
+export const LightPanel: React.FC<LightPanelProps> = ({ onRequest, isLoading, initialPrompt }) => { 
   const [userPrompt, setUserPrompt] = useState('');
   const [selectedPresetName, setSelectedPresetName] = useState<string>('');
   const [customPresets, setCustomPresets] = useState<any[]>([]);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [batchSize, setBatchSize] = useState(1);
+  const [editStrength, setEditStrength] = useState(35);
+  const [chaosLevel, setChaosLevel] = useState(0);
   const [intensity, setIntensity] = useState(50);
   
   const loadPresets = useCallback(async () => {
@@ -49,6 +55,10 @@ export const LightPanel: React.FC<LightPanelProps> = ({ onRequest, isLoading })
     } catch(e) {}
   }, []);
 
+  useEffect(() => {
+    if (initialPrompt) { setUserPrompt(initialPrompt); setSelectedPresetName(''); }
+  }, [initialPrompt]);
+
   useEffect(() => {
     loadPresets();
     window.addEventListener('stylePresetsUpdated', loadPresets);
@@ -79,7 +89,10 @@ export const LightPanel: React.FC<LightPanelProps> = ({ onRequest, isLoading })
         type: 'light', 
         prompt: adjustmentPrompt, 
         useOriginal: false, 
-        systemInstructionOverride: PROTOCOLS.EDITOR 
+        systemInstructionOverride: PROTOCOLS.EDITOR,
+        batchSize,
+        editStrength,
+        chaosLevel
       });
     }
   };
@@ -153,6 +166,8 @@ export const LightPanel: React.FC<LightPanelProps> = ({ onRequest, isLoading })
                 />
           </div>
 
+          <EditControls strength={editStrength} onStrengthChange={setEditStrength} chaos={chaosLevel} onChaosChange={setChaosLevel} disabled={isLoading} accentClassName="text-highlight accent-highlight" />
+
           <div>
             <h4 className="panel-label mb-3">Calibration_Library</h4>
             <div className="bg-black/40 border border-zinc-800 p-4 rounded-sm shadow-inner">
@@ -179,6 +194,8 @@ export const LightPanel: React.FC<LightPanelProps> = ({ onRequest, isLoading })
       </div>
 
       <div className="p-4 border-t border-white/5 bg-zinc-950/60 shrink-0 relative z-10 backdrop-blur-md">
+          <AspectRatioSelector disabled={isLoading} activeClassName="bg-highlight border-highlight text-black" task="edit" />
+          <BatchSelector value={batchSize} onChange={setBatchSize} disabled={isLoading} activeClassName="bg-highlight border-highlight text-black" />
           <button onClick={handleApply} disabled={isLoading || (!selectedPreset && !userPrompt.trim())} className="execute-btn group hover:border-highlight transition-colors"> 
               <span className={`font-black italic uppercase tracking-[0.2em] text-[10px] transition-colors ${isLoading ? 'text-zinc-500' : 'text-zinc-500 group-hover:text-highlight'}`}> 
                   {isLoading ? 'Calibrating...' : 'Execute Grade'}
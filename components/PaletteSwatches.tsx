@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CheckIcon, DownloadIcon } from './icons';
+import { paletteService, SWATCH_COUNT_CHOICES } from '../services/paletteService';
+import { CancelledError, normalizeError } from '../services/errors';
+import { PaletteSwatch } from '../utils/palette';
+import { exportPalette, PALETTE_FORMATS, PaletteFormat } from '../utils/paletteExport';
+
+interface PaletteSwatchesProps {
+    image: File | null;
+}
+
+// Perceived brightness, to keep hex labels readable on light swatches
+const isLight = ([r, g, b]: [number, number, number]) => r * 0.299 + g * 0.587 + b * 0.114 > 150;
+
+export const PaletteSwatches: React.FC<PaletteSwatchesProps> = ({ image }) => {
+    const [count, setCount] = useState(8);
+    const [swatches, setSwatches] = useState<PaletteSwatch[]>([]);
+    const [isExtracting, setIsExtracting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+    const [locked, setLocked] = useState<string[]>(() => paletteService.getLocked());
+
+    useEffect(() => paletteService.subscribe(setLocked), []);
+
+    // Extraction is local and cheap, so it follows the current image automatically
+    useEffect(() => {
+        setSwatches([]);
+        setError(null);
+        if (!image) return;
+        const controller = new AbortController();
+        setIsExtracting(true);
+        paletteService.extract(image, count, controller.signal)
+            .then(setSwatches)
+            .catch(e => {
+                const pixError = normalizeError(e);
+                if (!(pixError instanceof CancelledError)) setError(pixError.userMessage);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsExtracting(false);
+            });
+        return () => controller.abort();
+    }, [image, count]);
+
+    const handleCopy = (hex: string) => {
+        navigator.clipboard?.writeText(hex).then(() => {
+            setCopied(hex);
+            setTimeout(() => setCopied(current => current === hex ? null : current), 1200);
+        }).catch(() => {});
+    };
+
+    const handleExport = (format: PaletteFormat) => {
+        const { extension } = PALETTE_FORMATS.find(f => f.id === format)!;
+        const url = URL.createObjectURL(exportPalette(swatches, format, 'Pixshop DNA'));
+        const anchor = document.createElement('a');
+        anchor.href = url;
+        anchor.download = `pixshop_palette_${Date.now()}.${extension}`;
+        anchor.click();
+        URL.revokeObjectURL(url);
+    };
+
+    if (!image) return null;
+
+    return (
+        <div className="bg-black/40 border border-zinc-800 p-4 rounded-none space-y-4">
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest font-black">Local_Palette</span>
+                <div className="flex gap-1">
+                    {SWATCH_COUNT_CHOICES.map(choice => (
+                        <button
+                            key={choice}
+                            onClick={() => setCount(choice)}
+                            className={`px-2 py-0.5 text-[8px] font-mono border transition-all rounded-none ${count === choice ? 'border-dna text-dna bg-dna/10' : 'border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}
+                        >
+                            {choice}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {error && <p className="text-[9px] font-mono text-red-500 uppercase tracking-widest">{error}</p>}
+            {isExtracting && swatches.length === 0 && <p className="text-[9px] font-mono text-zinc-600 uppercase tracking-widest animate-pulse">Quantizing pixels...</p>}
+
+            {swatches.length > 0 && (
+                <>
+                    <div className="grid grid-cols-4 gap-2">
+                        {swatches.map((swatch, index) => {
+                            const isLocked = locked.includes(swatch.hex);
+                            return (
+                                <div key={`${swatch.hex}_${index}`} className="flex flex-col gap-1">
+                                    <button
+                                        onClick={() => handleCopy(swatch.hex)}
+                                        title={`Copy ${swatch.hex} (${Math.round(swatch.share * 100)}%)`}
+                                        className={`h-10 border flex items-end justify-start p-1 transition-all rounded-none ${isLocked ? 'border-dna shadow-[0_0_10px_rgba(168,85,247,0.4)]' : 'border-white/10 hover:border-white/40'}`}
+                                        style={{ backgroundColor: swatch.hex }}
+                                    >
+                                        <span className={`text-[7px] font-mono font-bold ${isLight(swatch.rgb) ? 'text-black/70' : 'text-white/80'}`}>
+                                            {copied === swatch.hex ? 'COPIED' : swatch.hex}
+                                        </span>
+                                    </button>
+                                    <button
+                                        onClick={() => paletteService.toggleLocked(swatch.hex)}
+                                        className={`flex items-center justify-center gap-1 py-0.5 text-[7px] font-mono uppercase tracking-widest border transition-all rounded-none ${isLocked ? 'border-dna/50 text-dna bg-dna/10' : 'border-zinc-800 text-zinc-600 hover:text-zinc-400'}`}
+                                    >
+                                        {isLocked && <CheckIcon className="w-2.5 h-2.5" />}
+                                        {isLocked ? 'Locked' : 'Lock'}
+                                    </button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <p className="text-[8px] font-mono text-zinc-600 uppercase tracking-widest leading-relaxed">
+                        Click copies hex. Locked swatches are sent as color constraints with every generation.
+                    </p>
+                    <div className="flex gap-1.5 pt-3 border-t border-zinc-800">
+                        {PALETTE_FORMATS.map(format => (
+                            <button
+                                key={format.id}
+                                onClick={() => handleExport(format.id)}
+                                className="flex-1 flex items-center justify-center gap-1 py-2 text-[8px] font-black uppercase tracking-widest bg-zinc-900 border border-zinc-800 text-zinc-500 hover:text-dna hover:border-dna/40 transition-all rounded-none"
+                            >
+                                <DownloadIcon className="w-3 h-3" /> {format.label}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { XIcon, PlusIcon, CopyIcon, TrashIcon, SaveIcon } from './icons';
+import { projectService, ProjectInfo } from '../services/projectService';
+import { normalizeError } from '../services/errors';
+
+interface ProjectBrowserProps {
+    activeId: string | null;
+    onOpen: (id: string) => void;
+    onNew: () => void;
+    onClose: () => void;
+}
+
+const actionClass = "flex-1 flex items-center justify-center gap-1 py-1.5 text-[8px] font-mono uppercase tracking-widest border border-zinc-800 text-zinc-500 transition-all rounded-none";
+
+const ProjectCard: React.FC<{ project: ProjectInfo; isActive: boolean; onOpen: () => void; onError: (message: string) => void }> = ({ project, isActive, onOpen, onError }) => {
+    const [coverUrl, setCoverUrl] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!project.cover) {
+            setCoverUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(project.cover);
+        setCoverUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [project.cover]);
+
+    const run = (action: Promise<unknown>) => action.catch(e => onError(normalizeError(e).userMessage));
+
+    const commitRename = () => {
+        if (draftName !== null && draftName.trim() && draftName.trim() !== project.name) run(projectService.rename(project.id, draftName));
+        setDraftName(null);
+    };
+
+    return (
+        <div className={`flex flex-col bg-zinc-900/60 border transition-all ${isActive ? 'border-matrix/60 shadow-[0_0_20px_rgba(0,255,157,0.15)]' : 'border-zinc-800 hover:border-zinc-600'}`}>
+            <button onClick={onOpen} className="relative aspect-[4/3] bg-black/60 overflow-hidden group" title={`Open ${project.name}`}>
+                {coverUrl
+                    ? <img src={coverUrl} alt="" className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
+                    : <span className="absolute inset-0 flex items-center justify-center text-[9px] font-mono text-zinc-700 uppercase tracking-widest">No_Image</span>}
+                {isActive && <span className="absolute top-2 left-2 px-2 py-0.5 text-[7px] font-mono font-black uppercase tracking-widest bg-matrix text-black">Open</span>}
+            </button>
+            <div className="p-3 space-y-2">
+                {draftName !== null ? (
+                    <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setDraftName(null); }}
+                        className="w-full bg-black border border-matrix/40 text-[11px] font-mono text-white px-2 py-1 focus:outline-none"
+                    />
+                ) : (
+                    <button onClick={() => setDraftName(project.name)} className="block w-full text-left text-[11px] font-mono font-bold text-white truncate hover:text-matrix transition-colors" title="Rename">
+                        {project.name}
+                    </button>
+                )}
+                <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5 text-[7px] font-mono uppercase tracking-widest">
+                    <dt className="text-zinc-600">Created</dt><dd className="text-zinc-400 text-right">{new Date(project.createdAt).toLocaleDateString()}</dd>
+                    <dt className="text-zinc-600">Updated</dt><dd className="text-zinc-400 text-right">{new Date(project.updatedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</dd>
+                    <dt className="text-zinc-600">Nodes / Tab</dt><dd className="text-zinc-400 text-right">{project.itemCount} / {project.lastTab}</dd>
+                </dl>
+                <div className="flex gap-1 pt-2 border-t border-zinc-800">
+                    <button onClick={() => run(projectService.duplicate(project.id))} className={`${actionClass} hover:text-white`}>
+                        <CopyIcon className="w-3 h-3" /> Dup
+                    </button>
+                    <button
+                        onClick={() => { if (window.confirm(`Delete project "${project.name}" and its history?`)) run(projectService.remove(project.id)); }}
+                        className={`${actionClass} hover:text-red-500 hover:border-red-500/40`}
+                    >
+                        <TrashIcon className="w-3 h-3" /> Del
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({ activeId, onOpen, onNew, onClose }) => {
+    const [projects, setProjects] = useState<ProjectInfo[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const refresh = () => projectService.list().then(setProjects).catch(e => setError(normalizeError(e).userMessage));
+        refresh();
+        return projectService.subscribe(refresh);
+    }, []);
+
+    return (
+        <div className="fixed inset-0 z-[10000] bg-black/95 backdrop-blur-md flex flex-col animate-fade-in overflow-hidden pt-[env(safe-area-inset-top)] text-zinc-100">
+            <header className="p-6 border-b border-zinc-800 flex items-center justify-between shrink-0">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-matrix/10 border border-matrix/40 flex items-center justify-center transform skew-x-[-12deg]">
+                        <SaveIcon className="w-6 h-6 text-matrix" />
+                    </div>
+                    <div>
+                        <h3 className="text-3xl font-black italic tracking-tighter text-white uppercase leading-none font-display">Projects</h3>
+                        <p className="text-[10px] text-matrix font-mono tracking-[0.4em] uppercase mt-1">Local_Archive // {projects?.length ?? 0} stored</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button onClick={onNew} className="flex items-center gap-2 px-4 py-3 border border-matrix/40 text-matrix text-[9px] font-black uppercase tracking-widest hover:bg-matrix hover:text-black transition-all rounded-none">
+                        <PlusIcon className="w-4 h-4" /> New_Project
+                    </button>
+                    <button onClick={onClose} className="p-3 bg-black/20 border border-zinc-700 text-zinc-500 hover:text-white transition-all transform hover:rotate-90">
+                        <XIcon className="w-6 h-6" />
+                    </button>
+                </div>
+            </header>
+
+            {error && <p className="px-6 pt-4 text-[9px] font-mono text-red-500 uppercase tracking-widest">{error}</p>}
+
+            <div className="flex-1 overflow-y-auto p-6 md:p-10 no-scrollbar">
+                {projects && projects.length === 0 ? (
+                    <div className="h-full flex flex-col items-center justify-center text-center">
+                        <p className="text-[10px] font-mono text-zinc-600 uppercase tracking-widest">No projects yet. Start one to keep its history here.</p>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                        {projects?.map(project => (
+                            <ProjectCard key={project.id} project={project} isActive={project.id === activeId} onOpen={() => onOpen(project.id)} onError={setError} />
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -5,6 +5,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useEffect, useState, useRef } from 'react';
+import { useProgress } from '../hooks/useProgress';
 
 const urbanPhrases = ['SHAKING CAN', 'MIXING PIGMENT', 'CUTTING STENCIL', 'BUFFING WALL', 'PRIMING SURFACE', 'IGNITING NEURONS', 'CALIBRATING FLUX'];
 
@@ -24,11 +25,10 @@ const systemLogs = [
     "System stable. Rendering..."
 ];
 
-interface SpinnerProps {
-  instruction?: string | null;
-}
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}S`;
 
-export const Spinner: React.FC<SpinnerProps> = ({ instruction }) => {
+export const Spinner: React.FC = () => {
+  const progress = useProgress();
   const [phrase, setPhrase] = useState(urbanPhrases[0]);
   const [logs, setLogs] = useState<string[]>([]);
   const logIndexRef = useRef(0);
@@ -54,6 +54,9 @@ export const Spinner: React.FC<SpinnerProps> = ({ instruction }) => {
       return () => clearInterval(interval);
   }, []);
 
+  // Estimates never reach 100 on their own; the job ending does
+  const barPercent = progress?.percent ?? (progress?.expectedMs ? Math.min(95, progress.elapsedMs / progress.expectedMs * 100) : undefined);
+
   return (
     <div className="relative flex flex-col items-center justify-center w-full max-w-sm p-4">
         {/* Background Glow */}
@@ -81,15 +84,25 @@ export const Spinner: React.FC<SpinnerProps> = ({ instruction }) => {
         {/* Text Metadata */}
         <div className="flex flex-col items-center gap-3 w-full z-10">
              <div className="text-white font-display text-2xl sm:text-3xl font-black italic tracking-widest uppercase text-center animate-pulse drop-shadow-[0_2px_10px_rgba(0,0,0,0.5)]">
-                {instruction || phrase}
+                {progress?.message || phrase}
              </div>
              
-             {/* Stylized Progress Bar */}
+             {/* Stylized Progress Bar: real percent when counted, ETA-based when the model has history */}
              <div className="w-full h-1 bg-zinc-800 relative overflow-hidden rounded-full">
-                 <div 
-                    className="absolute inset-0 bg-gradient-to-r from-transparent via-primary to-transparent w-1/2 h-full animate-[shimmer_1s_infinite_linear]" 
-                 />
+                 {barPercent !== undefined ? (
+                    <div className="absolute inset-y-0 left-0 bg-primary h-full transition-[width] duration-300" style={{ width: `${barPercent}%` }} />
+                 ) : (
+                    <div 
+                       className="absolute inset-0 bg-gradient-to-r from-transparent via-primary to-transparent w-1/2 h-full animate-[shimmer_1s_infinite_linear]" 
+                    />
+                 )}
              </div>
+             {progress && (
+                <div className="w-full flex justify-between text-[9px] font-mono text-zinc-500 uppercase tracking-widest">
+                    <span>{progress.phase} // T+{formatSeconds(progress.elapsedMs)}</span>
+                    <span>{progress.etaMs !== undefined ? `ETA ${formatSeconds(progress.etaMs)}` : 'ETA --'}</span>
+                </div>
+             )}
 
              {/* Terminal Logs */}
              <div className="w-full bg-black/60 border border-zinc-700/50 p-3 mt-4 rounded font-mono text-[10px] text-zinc-400 h-28 overflow-hidden flex flex-col justify-end backdrop-blur-md shadow-inner">
@@ -16,11 +16,16 @@ import {
   PaletteIcon,
   VectorIcon,
   TypeIcon,
-  SunIcon 
+  SunIcon,
+  HistoryIcon,
+  SaveIcon
 } from './icons';
 
 interface StartScreenProps {
   onStart: (tab?: ActiveTab) => void;
+  resumable?: { name: string; savedAt: number; count: number } | null; // Active project's last autosave, if any
+  onResume?: () => void;
+  onOpenProjects?: () => void;
 }
 
 const BOOT_LOGS = [
@@ -49,7 +54,7 @@ const ScribbleArt = ({ color = "white" }: { color?: string }) => (
     </svg>
 );
 
-export const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
+export const StartScreen: React.FC<StartScreenProps> = ({ onStart, resumable, onResume, onOpenProjects }) => {
   const { density } = useContext(AppContext);
   const [isVisible, setIsVisible] = useState(false);
   const [bootSequence, setBootSequence] = useState(0);
@@ -87,6 +92,11 @@ export const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
     setTimeout(() => onStart(tab), 500);
   };
 
+  const handleResume = () => {
+    setIsVisible(false);
+    setTimeout(() => onResume?.(), 500);
+  };
+
   const modules: { id: ActiveTab; title: string; sub: string; icon: React.FC<{className?: string}>; solidColor: string }[] = [
     { id: 'flux', title: 'Flux', sub: 'GEN', icon: BoltIcon, solidColor: '#FF2D55' },
     { id: 'style_extractor', title: 'DNA', sub: 'SEQ', icon: StyleExtractorIcon, solidColor: '#A855F7' },
@@ -130,6 +140,25 @@ export const StartScreen: React.FC<StartScreenProps> = ({ onStart }) => {
               <span>INITIALIZE_DNA</span>
               <ArrowRightIcon className={`${isCompact ? 'w-5 h-5' : 'w-8 h-8'} group-hover:translate-x-2 transition-transform`} />
             </button>
+            {resumable && onResume && (
+              <button
+                onClick={handleResume}
+                className={`${isCompact ? 'h-10 text-[9px]' : 'h-14 text-[11px]'} w-full border border-matrix/40 bg-matrix/5 text-matrix font-mono font-black uppercase tracking-[0.3em] flex items-center justify-center gap-3 transition-all hover:bg-matrix hover:text-black rounded-none`}
+              >
+                <HistoryIcon className="w-4 h-4" />
+                <span>RESUME_SESSION</span>
+                <span className="opacity-60 tracking-widest truncate max-w-[50%]" title={resumable.name}>[{resumable.name} / {resumable.count} / {new Date(resumable.savedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}]</span>
+              </button>
+            )}
+            {onOpenProjects && (
+              <button
+                onClick={onOpenProjects}
+                className={`${isCompact ? 'h-9 text-[8px]' : 'h-11 text-[10px]'} w-full border border-white/10 text-white/50 font-mono font-black uppercase tracking-[0.3em] flex items-center justify-center gap-3 transition-all hover:border-white/40 hover:text-white rounded-none`}
+              >
+                <SaveIcon className="w-3.5 h-3.5" />
+                <span>PROJECTS</span>
+              </button>
+            )}
             <div className={`w-full h-1.5 bg-zinc-900 border border-white/10 overflow-hidden`}>
                 <div className="h-full bg-matrix transition-all duration-300 shadow-[0_0_15px_#00FF9D]" style={{ width: `${bootSequence}%` }} />
             </div>
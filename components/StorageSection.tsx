@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { storageService, StorageBreakdown, KEEP_STEPS_CHOICES, THUMBNAIL_AFTER_CHOICES } from '../services/storageService';
+import { projectService } from '../services/projectService';
+import { EvictionPolicy } from '../utils/eviction';
+
+interface StorageSectionProps {
+    onEvictNow: () => Promise<{ removed: number; downscaled: number }>;
+}
+
+const CATEGORY_COLORS: Record<string, string> = {
+    images: 'bg-matrix',
+    presets: 'bg-dna',
+    caches: 'bg-cyan-400',
+    audio: 'bg-amber-400',
+    logs: 'bg-fuchsia-500',
+    other: 'bg-white/20',
+};
+
+const AUTO_EVICT_CHOICES = [0.7, 0.8, 0.9];
+
+const formatBytes = (n: number) => n >= 1024 ** 3 ? `${(n / 1024 ** 3).toFixed(2)} GB` : n >= 1024 ** 2 ? `${(n / 1024 ** 2).toFixed(1)} MB` : `${(n / 1024).toFixed(0)} KB`;
+
+const chipClass = (active: boolean) => `px-1.5 py-0.5 text-[7px] font-mono border transition-all rounded-none ${active ? 'border-matrix text-matrix bg-matrix/10' : 'border-white/10 text-white/40 hover:text-white'}`;
+
+// Usage by category, persistent-storage request and the eviction policy
+export const StorageSection: React.FC<StorageSectionProps> = ({ onEvictNow }) => {
+    const [breakdown, setBreakdown] = useState<StorageBreakdown | null>(null);
+    const [policy, setPolicy] = useState<EvictionPolicy>(storageService.getPolicy());
+    const [status, setStatus] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const refresh = () => storageService.estimate().then(setBreakdown).catch(() => setBreakdown(null));
+
+    useEffect(() => {
+        refresh();
+        const unsubscribePolicy = storageService.subscribe(setPolicy);
+        const unsubscribeProjects = projectService.subscribe(refresh);
+        return () => {
+            unsubscribePolicy();
+            unsubscribeProjects();
+        };
+    }, []);
+
+    const handlePersist = async () => {
+        const granted = await storageService.requestPersistence().catch(() => false);
+        setStatus(granted ? { tone: 'ok', text: 'Storage marked persistent.' } : { tone: 'error', text: 'Browser declined persistent storage.' });
+        refresh();
+    };
+
+    const handleEvict = async () => {
+        setIsBusy(true);
+        try {
+            const { removed, downscaled } = await onEvictNow();
+            setStatus({ tone: 'ok', text: `Evicted ${removed} step(s), downscaled ${downscaled}.` });
+            refresh();
+        } catch (e) {
+            setStatus({ tone: 'error', text: `Eviction failed: ${e instanceof Error ? e.message : String(e)}` });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const share = breakdown && breakdown.quota > 0 ? breakdown.usage / breakdown.quota : 0;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block font-black">Storage</label>
+                {breakdown && !breakdown.persisted && (
+                    <button onClick={handlePersist} className="text-[7px] font-mono uppercase tracking-widest text-white/40 hover:text-matrix transition-colors">Persist</button>
+                )}
+            </div>
+
+            {breakdown ? (
+                <div>
+                    <div className="flex h-1.5 w-full bg-zinc-900 border border-white/10 overflow-hidden">
+                        {breakdown.categories.map(c => breakdown.quota > 0 && (
+                            <div key={c.id} className={CATEGORY_COLORS[c.id]} style={{ width: `${(c.bytes / breakdown.quota) * 100}%` }} />
+                        ))}
+                    </div>
+                    <span className={`block mt-1 text-[7px] font-mono uppercase tracking-widest ${share >= policy.autoEvictAt ? 'text-amber-400' : 'text-white/40'}`}>
+                        {formatBytes(breakdown.usage)}{breakdown.quota > 0 ? ` of ${formatBytes(breakdown.quota)} (${(share * 100).toFixed(1)}%)` : ''}{breakdown.persisted ? ' / persistent' : ''}
+                    </span>
+                    <dl className="mt-2 grid grid-cols-2 gap-x-3 gap-y-0.5 text-[7px] font-mono uppercase tracking-widest">
+                        {breakdown.categories.map(c => (
+                            <React.Fragment key={c.id}>
+                                <dt className="flex items-center gap-1.5 text-white/40"><span className={`w-1.5 h-1.5 ${CATEGORY_COLORS[c.id]}`} />{c.label}</dt>
+                                <dd className="text-right text-white/60">{formatBytes(c.bytes)}</dd>
+                            </React.Fragment>
+                        ))}
+                    </dl>
+                </div>
+            ) : (
+                <span className="block text-[7px] font-mono text-white/40 uppercase tracking-widest">--</span>
+            )}
+
+            <div className="space-y-1.5 pt-2 border-t border-white/10">
+                <div className="flex justify-between items-center">
+                    <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest">Keep last steps</span>
+                    <div className="flex gap-1">
+                        {KEEP_STEPS_CHOICES.map(n => (
+                            <button key={n} onClick={() => storageService.setPolicy({ keepLastSteps: n })} className={chipClass(policy.keepLastSteps === n)}>{n || 'All'}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex justify-between items-center">
+                    <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest">Thumbnail after</span>
+                    <div className="flex gap-1">
+                        {THUMBNAIL_AFTER_CHOICES.map(days => (
+                            <button key={days} onClick={() => storageService.setPolicy({ thumbnailAfterDays: days })} className={chipClass(policy.thumbnailAfterDays === days)}>{days ? `${days}d` : 'Off'}</button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex justify-between items-center">
+                    <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest">Drop intermediate</span>
+                    <button onClick={() => storageService.setPolicy({ dropIntermediate: !policy.dropIntermediate })} className={chipClass(policy.dropIntermediate)}>{policy.dropIntermediate ? 'On' : 'Off'}</button>
+                </div>
+                <div className="flex justify-between items-center">
+                    <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest">Evict above</span>
+                    <div className="flex gap-1">
+                        {AUTO_EVICT_CHOICES.map(at => (
+                            <button key={at} onClick={() => storageService.setPolicy({ autoEvictAt: at })} className={chipClass(policy.autoEvictAt === at)}>{Math.round(at * 100)}%</button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-[7px] font-mono text-white/30 uppercase tracking-widest leading-relaxed">Starred results, uploads and the open image are never evicted.</p>
+                <button
+                    onClick={handleEvict}
+                    disabled={isBusy || !storageService.isPolicyActive(policy)}
+                    className="w-full py-1.5 border border-white/10 text-white/40 text-[7px] font-mono uppercase tracking-widest hover:text-amber-400 hover:border-amber-400/40 transition-all disabled:opacity-30 rounded-sm"
+                >
+                    {isBusy ? 'Evicting...' : 'Evict now'}
+                </button>
+            </div>
+
+            {status && (
+                <p className={`text-[8px] font-mono uppercase tracking-widest ${status.tone === 'error' ? 'text-red-500' : 'text-matrix'}`}>{status.text}</p>
+            )}
+        </div>
+    );
+};
@@ -5,10 +5,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { StyleExtractorIcon, PaletteIcon, VectorIcon, TypeIcon, SaveIcon, TrashIcon, HistoryIcon, DownloadIcon, UploadIcon, CheckIcon, SparklesIcon } from './icons';
-import { extractStyleFromImage, RoutedStyle } from '../services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { StyleExtractorIcon, PaletteIcon, VectorIcon, TypeIcon, SunIcon, SaveIcon, TrashIcon, HistoryIcon, DownloadIcon, UploadIcon, CheckIcon, SparklesIcon } from './icons';
+import { providerService, RoutedStyle, STYLE_FACETS, STYLE_PANEL_IDS, StyleFacet, StylePanelId } from '../services/providerService';
+import { progressService } from '../services/progressService';
+import { composeStylePrompt } from '../services/promptComposer';
+import { PaletteSwatches } from './PaletteSwatches';
 import { saveUserPresets, loadUserPresets } from '../services/persistence';
+import { CancelledError, normalizeError } from '../services/errors';
 
 interface StyleExtractorPanelProps {
   isLoading: boolean;
@@ -16,13 +20,13 @@ interface StyleExtractorPanelProps {
   currentImageFile: File | null;
   onRouteStyle: (style: RoutedStyle) => void;
   // isFastAiEnabled: boolean; // Removed, as model choice is now fixed
-  setViewerInstruction: (text: string | null) => void;
 }
 
 const PanelIconMap: Record<string, React.FC<{className?: string}>> = {
     filter_panel: PaletteIcon,
     vector_art_panel: VectorIcon,
     typographic_panel: TypeIcon,
+    light_panel: SunIcon,
     flux: StyleExtractorIcon
 };
 
@@ -30,6 +34,7 @@ const PanelNameMap: Record<string, string> = {
     filter_panel: 'Filters',
     vector_art_panel: 'Vector',
     typographic_panel: 'Type',
+    light_panel: 'Light',
     flux: 'Flux'
 };
 
@@ -37,25 +42,29 @@ const PanelColorMap: Record<string, string> = {
     filter_panel: 'text-filter',
     vector_art_panel: 'text-vector',
     typographic_panel: 'text-type',
+    light_panel: 'text-adjust',
     flux: 'text-flux'
 };
 
+const ALL_FACETS = STYLE_FACETS.map(f => f.id);
+
 export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({ 
   isLoading, 
   hasImage, 
   currentImageFile, 
-  onRouteStyle,
-  setViewerInstruction
+  onRouteStyle
 }) => {
   const [activeView, setActiveView] = useState<'scan' | 'library'>('scan');
   const [routedStyle, setRoutedStyle] = useState<RoutedStyle | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedPanel, setSelectedPanel] = useState<string | null>(null);
+  const [selectedPanel, setSelectedPanel] = useState<StylePanelId | null>(null);
+  const [keptFacets, setKeptFacets] = useState<StyleFacet[]>(ALL_FACETS);
   const [isSaved, setIsSaved] = useState(false);
   const [savedPresets, setSavedPresets] = useState<any[]>([]);
   const [isLoadingLibrary, setIsLoadingLibrary] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const fetchPresets = useCallback(async () => {
     setIsLoadingLibrary(true);
@@ -74,7 +83,9 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
     fetchPresets();
   }, [fetchPresets]);
 
+  // A scan of the previous image must not land on the new one
   useEffect(() => {
+    abortControllerRef.current?.abort();
     setRoutedStyle(null);
     setActiveView('scan');
     setError(null);
@@ -82,39 +93,64 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
     setIsSaved(false);
   }, [currentImageFile]);
 
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   useEffect(() => {
     if (routedStyle) {
       setSelectedPanel(routedStyle.target_panel_id);
+      setKeptFacets(ALL_FACETS);
     }
   }, [routedStyle]);
 
-  const handleExtract = useCallback(async () => {
+  // Every panel appears once, ranked by the scan's confidence; unscored panels sink to the bottom
+  const rankedPanels = useMemo(() => {
+    const confidence = new Map((routedStyle?.suggestions || []).map(s => [s.panel, s.confidence]));
+    return STYLE_PANEL_IDS
+      .map(panel => ({ panel, confidence: confidence.get(panel), reason: routedStyle?.suggestions?.find(s => s.panel === panel)?.reason }))
+      .sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1));
+  }, [routedStyle]);
+
+  const toggleFacet = (facet: StyleFacet) => {
+    setKeptFacets(prev => prev.includes(facet) ? prev.filter(f => f !== facet) : [...prev, facet]);
+    setIsSaved(false);
+  };
+
+  // Shift+Click skips the analysis cache
+  const handleExtract = useCallback(async (e?: React.MouseEvent) => {
     if (!currentImageFile || isExtracting) return;
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsExtracting(true);
     setError(null);
     setRoutedStyle(null);
     setSelectedPanel(null);
     setIsSaved(false);
-    setViewerInstruction("SEQUENCING_VISUAL_DNA...");
     
     try {
-      const result = await extractStyleFromImage(currentImageFile, setViewerInstruction);
+      const result = await progressService.track('extract_style', job => providerService.getTextProvider('style_extractor').extractStyle(currentImageFile, job, controller.signal, e?.shiftKey), "SEQUENCING_VISUAL_DNA...");
       setRoutedStyle(result);
     } catch (e: any) {
-      console.error('Extraction failed:', e);
-      setError(e.message || "Extraction Fault.");
+      const pixError = normalizeError(e);
+      if (!(pixError instanceof CancelledError)) {
+        console.error('Extraction failed:', pixError);
+        setError(pixError.message || "Extraction Fault.");
+      }
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
       setIsExtracting(false);
-      setViewerInstruction(null);
     }
-  }, [currentImageFile, isExtracting, setViewerInstruction]);
+  }, [currentImageFile, isExtracting]);
+
+  const handleCancelExtract = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const handleSavePreset = async () => {
     if (!routedStyle || !selectedPanel) return;
     try {
         const existingPresets = await loadUserPresets();
-        const promptContent = routedStyle.preset_data.prompt;
+        const promptContent = composeStylePrompt(routedStyle, keptFacets);
         const newPreset = {
             id: `dna_${Date.now()}`,
             name: routedStyle.preset_data.name,
@@ -123,6 +159,8 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
             genPrompt: promptContent, 
             category: 'CUSTOM',
             recommendedPanel: selectedPanel,
+            profile: routedStyle.profile,
+            facets: routedStyle.profile ? keptFacets : undefined,
             isCustom: true,
             timestamp: Date.now()
         };
@@ -150,9 +188,11 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
     const style = styleToRoute || routedStyle;
     const targetPanel = styleToRoute ? styleToRoute.target_panel_id : selectedPanel;
     if (style && targetPanel) {
-      onRouteStyle({ ...style, target_panel_id: targetPanel as any });
+      // Library presets already carry their composed prompt
+      const prompt = styleToRoute ? style.preset_data.prompt : composeStylePrompt(style, keptFacets);
+      onRouteStyle({ ...style, target_panel_id: targetPanel, preset_data: { ...style.preset_data, prompt } });
     }
-  }, [routedStyle, onRouteStyle, selectedPanel]);
+  }, [routedStyle, onRouteStyle, selectedPanel, keptFacets]);
 
   const handleExport = () => {
       const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(savedPresets));
@@ -197,7 +237,9 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
 
       <div className="flex-1 overflow-y-auto p-5 space-y-6 custom-scrollbar relative z-10 pb-32">
          {activeView === 'scan' ? (
-             !routedStyle ? (
+             <div className="space-y-6">
+             <PaletteSwatches image={currentImageFile} />
+             {!routedStyle ? (
                  <div className="h-full flex flex-col items-center justify-center border border-zinc-800 bg-black/20 text-center p-8 rounded-none mt-4">
                      <StyleExtractorIcon className="w-10 h-10 text-zinc-700 mb-4" />
                      <p className="text-zinc-600 font-mono text-[10px] uppercase tracking-[0.2em] leading-relaxed max-w-[160px]">
@@ -209,25 +251,63 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
                      <div className="bg-black/40 border border-zinc-800 p-4 rounded-none space-y-6">
                         <div>
                             <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest block mb-3 font-black">Target Lock</span>
-                            <div className="flex gap-2">
-                                {['filters', 'vector', 'typography'].map((id) => {
-                                    const actualId = id === 'filters' ? 'filter_panel' : (id === 'vector' ? 'vector_art_panel' : 'typographic_panel');
-                                    const Icon = PanelIconMap[actualId];
-                                    const isActive = selectedPanel === actualId;
+                            <div className="space-y-1.5">
+                                {rankedPanels.map(({ panel, confidence, reason }) => {
+                                    const Icon = PanelIconMap[panel];
+                                    const isActive = selectedPanel === panel;
                                     return (
                                         <button
-                                            key={id}
-                                            onClick={() => { setSelectedPanel(actualId); setIsSaved(false); }}
-                                            className={`flex-1 p-3 border transition-all flex flex-col items-center gap-2 rounded-none ${isActive ? 'bg-dna/20 border-dna text-white shadow-[0_0_15px_rgba(168,85,247,0.2)]' : 'bg-black/40 border-zinc-800 text-zinc-600 hover:text-zinc-400 hover:border-zinc-700'}`}
+                                            key={panel}
+                                            onClick={() => { setSelectedPanel(panel); setIsSaved(false); }}
+                                            title={reason}
+                                            className={`w-full px-3 py-2 border transition-all flex items-center gap-3 rounded-none ${isActive ? 'bg-dna/20 border-dna text-white shadow-[0_0_15px_rgba(168,85,247,0.2)]' : 'bg-black/40 border-zinc-800 text-zinc-600 hover:text-zinc-400 hover:border-zinc-700'}`}
                                         >
-                                            <Icon className="w-4 h-4" />
-                                            <span className="text-[9px] font-black uppercase tracking-wider">{id}</span>
+                                            <Icon className="w-4 h-4 shrink-0" />
+                                            <span className="text-[9px] font-black uppercase tracking-wider w-12 text-left">{PanelNameMap[panel]}</span>
+                                            <div className="flex-1 h-1 bg-zinc-900">
+                                                <div className={`h-full ${isActive ? 'bg-dna' : 'bg-zinc-700'}`} style={{ width: `${Math.round((confidence ?? 0) * 100)}%` }} />
+                                            </div>
+                                            <span className="text-[9px] font-mono w-8 text-right">{confidence !== undefined ? `${Math.round(confidence * 100)}%` : '--'}</span>
                                         </button>
                                     );
                                 })}
                             </div>
                         </div>
 
+                        {routedStyle.profile && (
+                            <div className="pt-4 border-t border-zinc-800">
+                                <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest block mb-3 font-black">Profile // Keep in preset</span>
+                                <div className="space-y-1.5">
+                                    {STYLE_FACETS.map(({ id, label }) => {
+                                        const profile = routedStyle.profile!;
+                                        const isKept = keptFacets.includes(id);
+                                        if (id === 'palette' ? profile.palette.length === 0 : !profile[id]) return null;
+                                        return (
+                                            <button
+                                                key={id}
+                                                onClick={() => toggleFacet(id)}
+                                                className={`w-full px-3 py-2 border transition-all flex items-start gap-3 text-left rounded-none ${isKept ? 'border-dna/40 bg-dna/5' : 'border-zinc-800 opacity-40 hover:opacity-70'}`}
+                                            >
+                                                <span className={`mt-0.5 w-3 h-3 border shrink-0 flex items-center justify-center ${isKept ? 'border-dna bg-dna text-black' : 'border-zinc-600'}`}>
+                                                    {isKept && <CheckIcon className="w-2.5 h-2.5" />}
+                                                </span>
+                                                <span className="text-[9px] font-mono text-zinc-500 uppercase tracking-widest w-20 shrink-0">{label}</span>
+                                                {id === 'palette' ? (
+                                                    <span className="flex flex-wrap gap-1">
+                                                        {profile.palette.map(hex => (
+                                                            <span key={hex} title={hex} className="w-4 h-4 border border-white/10" style={{ backgroundColor: hex }} />
+                                                        ))}
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-[10px] text-zinc-300 font-mono leading-snug">{profile[id]}</span>
+                                                )}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="space-y-4 pt-4 border-t border-zinc-800">
                             <div className="flex justify-between items-start">
                                 <div className="flex-1 pr-4">
@@ -246,7 +326,8 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
                         </div>
                      </div>
                  </div>
-             )
+             )}
+             </div>
          ) : (
              <div className="space-y-4 animate-fade-in pb-10">
                  <div className="flex gap-2 mb-4">
@@ -299,13 +380,14 @@ export const StyleExtractorPanel: React.FC<StyleExtractorPanelProps> = ({
       {/* Floating Execute Button to prevent occlusion */}
       <div className="absolute bottom-5 left-5 right-5 z-20 pointer-events-auto">
           <button
-              onClick={routedStyle ? () => handleRoute() : handleExtract}
-              disabled={!canExtract && !routedStyle}
+              onClick={isExtracting ? handleCancelExtract : (routedStyle ? () => handleRoute() : handleExtract)}
+              title={!isExtracting && !routedStyle ? "Shift+Click re-sequences the image, bypassing the analysis cache" : undefined}
+              disabled={!canExtract && !routedStyle && !isExtracting}
               className="execute-btn group border-zinc-800 hover:border-dna transition-colors !bg-zinc-950/90 backdrop-blur-xl"
           >
               <div className="relative z-10 flex items-center justify-center gap-3 h-full">
                   <span className={`font-black italic uppercase tracking-[0.2em] text-[11px] transition-colors skew-x-[-10deg] ${isExtracting ? 'text-zinc-500' : 'text-zinc-500 group-hover:text-dna'}`}>
-                      {isExtracting ? 'Sequencing...' : (routedStyle ? `Jump to ${PanelNameMap[selectedPanel || '']}` : 'Analyze DNA')}
+                      {isExtracting ? 'Abort Sequencing' : (routedStyle ? `Jump to ${PanelNameMap[selectedPanel || '']}` : 'Analyze DNA')}
                   </span>
                   <SparklesIcon className={`w-4 h-4 transition-colors ${isExtracting ? 'text-zinc-500' : 'text-zinc-500 group-hover:text-dna'}`} />
               </div>
@@ -5,9 +5,20 @@
 */
 
 import React, { useState, useRef, useEffect, useCallback, useContext } from 'react';
-import { RinneganIcon, XIcon, BoltIcon, RefreshIcon, TrashIcon, SparklesIcon, KeyIcon, UploadIcon } from './icons'; // Updated import
+import { RinneganIcon, XIcon, BoltIcon, RefreshIcon, TrashIcon, SparklesIcon, KeyIcon, UploadIcon, DownloadIcon } from './icons'; // Updated import
 import { AppContext, ImageModel } from '../context/AppContext';
 import { audioService } from '../services/audioService';
+import { providerService } from '../services/providerService';
+import { recorderService, RecorderMode } from '../services/recorderService';
+import { usageService, UsageSummary, UsageTotals } from '../services/usageService';
+import { budgetService, BudgetLimits, BudgetStatus } from '../services/budgetService';
+import { analysisCache, AnalysisCacheStats } from '../services/analysisCache';
+import { preprocessService, MAX_EDGE_CHOICES } from '../services/preprocessService';
+import { modelCatalog, MODEL_TASKS } from '../services/modelCatalog';
+import { keyVault } from '../services/keyVault';
+import { KeyVaultSection } from './KeyVaultSection';
+import { DatabaseSection } from './DatabaseSection';
+import { StorageSection } from './StorageSection';
 
 // Removed AIStudio and Window.aistudio types as API key selection is no longer handled in UI
 // declare global {
@@ -24,6 +35,7 @@ interface SystemConfigWidgetProps {
   onSoftFix: () => void;
   onHardFix: () => void;
   onOpenDebugger: () => void;
+  onEvictNow: () => Promise<{ removed: number; downscaled: number }>;
 }
 
 interface Position {
@@ -31,16 +43,79 @@ interface Position {
   y: number;
 }
 
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(2)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const UsageCell: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <div className="bg-zinc-900/50 border-2 border-white/10 p-2.5 rounded-sm">
+    <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest block mb-1">{label}</span>
+    <span className="text-sm font-display text-matrix italic block leading-none">${totals.cost.toFixed(3)}</span>
+    <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest block mt-1">{formatTokens(totals.totalTokens)} tok / {totals.imageCount} img</span>
+  </div>
+);
+
 export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({ 
   onSoftFix, 
   onHardFix,
-  onOpenDebugger 
+  onOpenDebugger,
+  onEvictNow
 }) => {
   // Removed setImageModel from context destructuring as model selection is removed
   const { isFastAiEnabled, setIsFastAiEnabled, isAudioMuted, toggleAudio } = useContext(AppContext);
   const [isOpen, setIsOpen] = useState(false);
-  const [hasKey, setHasKey] = useState<boolean>(false); // Still useful for general API_KEY presence
+  const [hasKey, setHasKey] = useState<boolean>(false); // Active Gemini key in the vault
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [activeProviderId, setActiveProviderId] = useState<string>('gemini');
+
+  const [recorderMode, setRecorderMode] = useState<RecorderMode>('off');
+  const [tapeCount, setTapeCount] = useState(0);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
+  const [showPrices, setShowPrices] = useState(false);
+  const [prices, setPrices] = useState(usageService.getPrices());
+  const [budgetLimits, setBudgetLimits] = useState<BudgetLimits>(budgetService.getLimits());
+  const [budgetStatus, setBudgetStatus] = useState<BudgetStatus | null>(null);
+  const [cacheStats, setCacheStats] = useState<AnalysisCacheStats | null>(null);
+  const [preprocess, setPreprocess] = useState(preprocessService.getSettings());
+  const [modelChoices, setModelChoices] = useState(modelCatalog.getChoices());
+
+  useEffect(() => providerService.subscribe(routes => setActiveProviderId(routes.default || 'gemini')), []);
+  useEffect(() => recorderService.subscribe(setRecorderMode), []);
+  useEffect(() => preprocessService.subscribe(setPreprocess), []);
+  useEffect(() => modelCatalog.subscribe(setModelChoices), []);
+
+  useEffect(() => {
+    if (isOpen) recorderService.count().then(setTapeCount).catch(() => setTapeCount(0));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => {
+      setPrices(usageService.getPrices());
+      usageService.summarize().then(setUsageSummary).catch(() => setUsageSummary(null));
+    };
+    refresh();
+    return usageService.subscribe(refresh);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => {
+      setBudgetLimits(budgetService.getLimits());
+      budgetService.check().then(setBudgetStatus).catch(() => setBudgetStatus(null));
+    };
+    refresh();
+    const unsubscribeUsage = usageService.subscribe(refresh);
+    const unsubscribeBudget = budgetService.subscribe(refresh);
+    return () => { unsubscribeUsage(); unsubscribeBudget(); };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => analysisCache.stats().then(setCacheStats).catch(() => setCacheStats(null));
+    refresh();
+    return analysisCache.subscribe(refresh);
+  }, [isOpen]);
   
   // Default position: Bottom Right, slightly offset
   const [position, setPosition] = useState<Position>(() => {
@@ -89,14 +164,13 @@ export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({
   }, [position]);
 
   useEffect(() => {
-    // Simplified key check: just check for process.env.API_KEY
-    if (process.env.API_KEY) {
-        setHasKey(true);
-        setIsFastAiEnabled(true); // Assume enabled if API key is present
-    } else {
-        setHasKey(false);
-        setIsFastAiEnabled(false);
-    }
+    // Live features follow whether the vault holds a usable Gemini key
+    const refresh = () => keyVault.hasActiveKey('gemini').then(present => {
+        setHasKey(present);
+        setIsFastAiEnabled(present);
+    }).catch(() => setHasKey(false));
+    refresh();
+    return keyVault.subscribe(refresh);
   }, [setIsFastAiEnabled]);
 
   useEffect(() => {
@@ -184,6 +258,54 @@ export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({
       audioService.clearCustomDrone();
   };
 
+  const handleExportTape = async () => {
+      const blob = await recorderService.exportBundle();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `pixshop_session_${Date.now()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+  };
+
+  const handleImportTape = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          await recorderService.importBundle(file);
+          setTapeCount(await recorderService.count());
+          recorderService.setMode('replay');
+      } catch (err) {
+          console.error("Session bundle import failed", err);
+      }
+  };
+
+  const handleClearTape = async () => {
+      await recorderService.clear();
+      setTapeCount(0);
+  };
+
+  const handlePriceChange = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: string) => {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) return;
+      usageService.setPrice(model, { ...prices[model], [field]: parsed });
+  };
+
+  // Empty clears an optional cap; warnAt is edited as a percentage
+  const handleLimitChange = (field: keyof BudgetLimits, value: string) => {
+      if (value === '') {
+          if (field !== 'warnAt' && field !== 'resetHour' && field !== 'resetDay') budgetService.setLimits({ [field]: undefined });
+          return;
+      }
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < 0) return;
+      if (field === 'warnAt') budgetService.setLimits({ warnAt: Math.min(100, parsed) / 100 });
+      else if (field === 'resetHour') budgetService.setLimits({ resetHour: Math.min(23, Math.floor(parsed)) });
+      else if (field === 'resetDay') budgetService.setLimits({ resetDay: Math.max(1, Math.min(28, Math.floor(parsed))) });
+      else budgetService.setLimits({ [field]: parsed });
+  };
+
   // Simplified color class, no longer dependent on `imageModel`
   const activeColorClass = hasKey ? 'text-primary' : 'text-zinc-500';
 
@@ -204,7 +326,7 @@ export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({
         </div>
       ) : (
         <div className="fixed inset-0 z-[10000] bg-black/95 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in">
-          <div className="glass-panel border-white/20 p-6 sm:p-8 w-full max-w-sm relative bg-zinc-950 shadow-[0_0_120px_rgba(0,0,0,1)] rounded-sm overflow-hidden">
+          <div className="glass-panel border-white/20 p-6 sm:p-8 w-full max-w-sm max-h-[92vh] overflow-y-auto custom-scrollbar relative bg-zinc-950 shadow-[0_0_120px_rgba(0,0,0,1)] rounded-sm">
             {/* Fire Gradient Accent */}
             <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-red-600 via-orange-500 to-amber-400" />
             
@@ -263,8 +385,188 @@ export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({
                 />
               </div>
 
-              {/* Removed Core_Engine model selection */}
-              {/* Removed Authentication section */}
+              <div>
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block mb-3 font-black">Core_Engine</label>
+                <div className="grid grid-cols-2 gap-2">
+                    {providerService.listImageProviders().map(provider => (
+                        <button
+                            key={provider.id}
+                            onClick={() => providerService.setRoute('default', provider.id === 'gemini' ? null : provider.id)}
+                            className={`py-3 px-3 border-2 transition-all flex items-center justify-center rounded-sm ${activeProviderId === provider.id ? 'bg-matrix border-matrix text-black shadow-neon-matrix' : 'bg-zinc-900/50 border-white/10 text-white/40 hover:border-matrix/30'}`}
+                        >
+                            <span className="text-[8px] font-black uppercase tracking-widest">{provider.label}</span>
+                        </button>
+                    ))}
+                </div>
+              </div>
+
+              <KeyVaultSection />
+
+              <div>
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block mb-3 font-black">Model_Matrix</label>
+                <div className="space-y-1.5">
+                    {MODEL_TASKS.map(task => (
+                        <div key={task.id} className="flex items-center gap-2">
+                            <span className="flex-1 text-[7px] font-mono text-white/40 uppercase tracking-widest">{task.label}</span>
+                            <select
+                                value={modelChoices[task.id]}
+                                onChange={(e) => modelCatalog.setModel(task.id, e.target.value)}
+                                className="w-36 bg-black border border-white/10 text-[8px] font-mono text-white px-1 py-1 focus:outline-none focus:border-matrix"
+                            >
+                                {modelCatalog.modelsFor(task.id).map(model => (
+                                    <option key={model.id} value={model.id}>{model.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block mb-3 font-black">Upload_Prep <span className="text-white/30">[max edge]</span></label>
+                <div className="grid grid-cols-5 gap-1 mb-2">
+                    <button
+                        onClick={() => preprocessService.setSettings({ enabled: false })}
+                        className={`py-2 border-2 transition-all text-[8px] font-black uppercase tracking-widest rounded-sm ${!preprocess.enabled ? 'bg-matrix border-matrix text-black' : 'bg-zinc-900/50 border-white/10 text-white/40 hover:border-white/30'}`}
+                    >
+                        Raw
+                    </button>
+                    {MAX_EDGE_CHOICES.map(edge => (
+                        <button
+                            key={edge}
+                            onClick={() => preprocessService.setSettings({ enabled: true, maxEdge: edge })}
+                            className={`py-2 border-2 transition-all text-[8px] font-black font-mono rounded-sm ${preprocess.enabled && preprocess.maxEdge === edge ? 'bg-matrix border-matrix text-black' : 'bg-zinc-900/50 border-white/10 text-white/40 hover:border-white/30'}`}
+                        >
+                            {edge}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-3">
+                    {(['image/webp', 'image/jpeg'] as const).map(type => (
+                        <button key={type} onClick={() => preprocessService.setSettings({ mimeType: type })} disabled={!preprocess.enabled} className={`text-[7px] font-mono uppercase tracking-widest transition-colors disabled:opacity-30 ${preprocess.mimeType === type ? 'text-matrix' : 'text-white/40 hover:text-white'}`}>
+                            {type.split('/')[1]}
+                        </button>
+                    ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block mb-3 font-black">Session_Tape <span className="text-white/30">[{tapeCount}]</span></label>
+                <div className="grid grid-cols-3 gap-2 mb-2">
+                    {(['off', 'record', 'replay'] as RecorderMode[]).map(mode => (
+                        <button
+                            key={mode}
+                            onClick={() => recorderService.setMode(mode)}
+                            className={`py-2.5 border-2 transition-all flex items-center justify-center rounded-sm ${recorderMode === mode ? (mode === 'record' ? 'bg-red-500 border-red-400 text-black' : 'bg-matrix border-matrix text-black shadow-neon-matrix') : 'bg-zinc-900/50 border-white/10 text-white/40 hover:border-white/30'}`}
+                        >
+                            <span className="text-[8px] font-black uppercase tracking-widest">{mode === 'off' ? 'Live' : mode === 'record' ? 'Rec' : 'Replay'}</span>
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={handleExportTape} disabled={tapeCount === 0} className="flex-1 py-2.5 border-2 border-white/10 bg-zinc-900/50 text-white/60 hover:text-white hover:border-white/30 disabled:opacity-30 transition-all flex items-center justify-center gap-2 rounded-sm">
+                        <DownloadIcon className="w-3.5 h-3.5" />
+                        <span className="text-[8px] font-black uppercase tracking-widest">Export</span>
+                    </button>
+                    <button onClick={() => bundleInputRef.current?.click()} className="flex-1 py-2.5 border-2 border-white/10 bg-zinc-900/50 text-white/60 hover:text-white hover:border-white/30 transition-all flex items-center justify-center gap-2 rounded-sm">
+                        <UploadIcon className="w-3.5 h-3.5" />
+                        <span className="text-[8px] font-black uppercase tracking-widest">Import</span>
+                    </button>
+                    <button onClick={handleClearTape} className="w-12 py-2.5 flex items-center justify-center border-2 border-red-900/50 bg-red-950/30 text-red-500 hover:bg-red-500 hover:text-black transition-all rounded-sm" title="Clear Recorded Session">
+                        <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+                <input type="file" ref={bundleInputRef} className="hidden" accept="application/json,.json" onChange={handleImportTape} />
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-3">
+                    <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block font-black">Usage_Ledger</label>
+                    <div className="flex gap-3">
+                        <button onClick={() => setShowPrices(!showPrices)} className={`text-[7px] font-mono uppercase tracking-widest transition-colors ${showPrices ? 'text-matrix' : 'text-white/40 hover:text-white'}`}>Prices</button>
+                        <button onClick={() => usageService.clear()} className="text-[7px] font-mono uppercase tracking-widest text-white/40 hover:text-red-500 transition-colors">Reset</button>
+                    </div>
+                </div>
+                {usageSummary && (
+                    <>
+                        <div className="grid grid-cols-2 gap-2 mb-2">
+                            <UsageCell label="Session" totals={usageSummary.session} />
+                            <UsageCell label="Today" totals={usageSummary.today} />
+                        </div>
+                        {usageSummary.days.slice(0, 7).map(({ date, totals }) => (
+                            <div key={date} className="flex justify-between text-[7px] font-mono text-white/40 uppercase tracking-widest py-0.5">
+                                <span>{date}</span>
+                                <span>{totals.requests} req / {formatTokens(totals.totalTokens)} tok / ${totals.cost.toFixed(3)}</span>
+                            </div>
+                        ))}
+                    </>
+                )}
+                {showPrices && (
+                    <div className="mt-3 space-y-2 border-t border-white/10 pt-3">
+                        <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest block">USD per 1M tokens (in / out)</span>
+                        {Object.entries(prices).map(([model, price]) => (
+                            <div key={model} className="flex items-center gap-2">
+                                <span className="flex-1 text-[8px] font-mono text-white/60 truncate">{model}</span>
+                                <input type="number" min="0" step="0.01" value={price.inputPerMillion} onChange={(e) => handlePriceChange(model, 'inputPerMillion', e.target.value)} className="w-14 bg-black border border-white/10 text-[8px] font-mono text-white px-1 py-0.5 focus:outline-none focus:border-matrix" />
+                                <input type="number" min="0" step="0.01" value={price.outputPerMillion} onChange={(e) => handlePriceChange(model, 'outputPerMillion', e.target.value)} className="w-14 bg-black border border-white/10 text-[8px] font-mono text-white px-1 py-0.5 focus:outline-none focus:border-matrix" />
+                            </div>
+                        ))}
+                        <button onClick={() => usageService.resetPrices()} className="text-[7px] font-mono uppercase tracking-widest text-white/40 hover:text-white transition-colors">Restore Defaults</button>
+                    </div>
+                )}
+              </div>
+
+              <div>
+                <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] mb-3 block font-black">Budget_Guard</label>
+                <div className="grid grid-cols-2 gap-2">
+                    {([
+                        ['dailySpend', 'Daily $', budgetLimits.dailySpend, budgetStatus ? `$${budgetStatus.daily.cost.toFixed(2)}` : null],
+                        ['monthlySpend', 'Monthly $', budgetLimits.monthlySpend, budgetStatus ? `$${budgetStatus.monthly.cost.toFixed(2)}` : null],
+                        ['dailyRequests', 'Daily Req', budgetLimits.dailyRequests, budgetStatus ? String(budgetStatus.daily.requests) : null],
+                        ['monthlyRequests', 'Monthly Req', budgetLimits.monthlyRequests, budgetStatus ? String(budgetStatus.monthly.requests) : null],
+                    ] as const).map(([field, label, limit, used]) => (
+                        <div key={field} className="bg-zinc-900/50 border-2 border-white/10 p-2 rounded-sm">
+                            <div className="flex justify-between text-[7px] font-mono text-white/40 uppercase tracking-widest mb-1">
+                                <span>{label}</span>
+                                {used !== null && <span>{used} used</span>}
+                            </div>
+                            <input type="number" min="0" step={field.endsWith('Spend') ? '0.5' : '1'} placeholder="No cap" value={limit ?? ''} onChange={(e) => handleLimitChange(field, e.target.value)} className="w-full bg-black border border-white/10 text-[8px] font-mono text-white px-1 py-0.5 focus:outline-none focus:border-matrix" />
+                        </div>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2 mt-2 text-[7px] font-mono text-white/40 uppercase tracking-widest">
+                    <span>Warn %</span>
+                    <input type="number" min="0" max="100" value={Math.round(budgetLimits.warnAt * 100)} onChange={(e) => handleLimitChange('warnAt', e.target.value)} className="w-10 bg-black border border-white/10 text-[8px] font-mono text-white px-1 py-0.5 focus:outline-none focus:border-matrix" />
+                    <span>Reset Hr</span>
+                    <input type="number" min="0" max="23" value={budgetLimits.resetHour} onChange={(e) => handleLimitChange('resetHour', e.target.value)} className="w-10 bg-black border border-white/10 text-[8px] font-mono text-white px-1 py-0.5 focus:outline-none focus:border-matrix" />
+                    <span>Day</span>
+                    <input type="number" min="1" max="28" value={budgetLimits.resetDay} onChange={(e) => handleLimitChange('resetDay', e.target.value)} className="w-10 bg-black border border-white/10 text-[8px] font-mono text-white px-1 py-0.5 focus:outline-none focus:border-matrix" />
+                </div>
+                {budgetStatus && (
+                    <div className="mt-2 space-y-0.5 text-[7px] font-mono uppercase tracking-widest">
+                        {budgetStatus.message && (
+                            <span className={`block ${budgetStatus.level === 'blocked' ? 'text-red-500' : 'text-amber-400'}`}>{budgetStatus.message}</span>
+                        )}
+                        <span className="block text-white/40">Daily resets {new Date(budgetStatus.dailyResetsAt).toLocaleString()}</span>
+                        <span className="block text-white/40">Monthly resets {new Date(budgetStatus.monthlyResetsAt).toLocaleDateString()}</span>
+                    </div>
+                )}
+              </div>
+
+              <div className="flex justify-between items-center">
+                <div>
+                    <label className="text-[9px] font-mono text-white/50 uppercase tracking-[0.3em] block font-black">Analysis_Cache</label>
+                    <span className="text-[7px] font-mono text-white/40 uppercase tracking-widest">
+                        {cacheStats ? `${cacheStats.entries} entries / ${(cacheStats.bytes / 1024).toFixed(1)} KB` : '--'}
+                    </span>
+                </div>
+                <button onClick={() => analysisCache.clear()} disabled={!cacheStats?.entries} className="text-[7px] font-mono uppercase tracking-widest text-white/40 hover:text-red-500 transition-colors disabled:opacity-30">Purge</button>
+              </div>
+
+              <StorageSection onEvictNow={onEvictNow} />
+
+              <DatabaseSection />
+
 
               <div className="h-px bg-white/10 mt-2" />
 
@@ -277,7 +579,7 @@ export const SystemConfigWidget: React.FC<SystemConfigWidgetProps> = ({
                         Logs
                     </button>
                     <button onClick={() => { onHardFix(); setIsOpen(false); }} className="flex-1 py-2 text-zinc-700 font-mono text-[7px] uppercase tracking-widest hover:text-red-500 transition-all text-right">
-                        Format
+                        Repair
                     </button>
                 </div>
               </div>
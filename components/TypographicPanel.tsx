@@ -6,6 +6,9 @@
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { GenerationRequest } from '../App';
+import { BatchSelector } from './BatchSelector';
+import { EditControls } from './EditControls';
+import { AspectRatioSelector } from './AspectRatioSelector';
 import { TypeIcon, XIcon, BoltIcon, SaveIcon, TrashIcon } from './icons';
 import { PROTOCOLS } from '../services/geminiService';
 import { loadUserPresets, addUserPreset, deleteUserPreset } from '../services/persistence';
@@ -55,14 +58,16 @@ export const TypographicPanel: React.FC<{
   onRequest: (request: GenerationRequest) => void;
   isLoading: boolean;
   hasImage: boolean;
-  setViewerInstruction: (text: string | null) => void;
   initialPrompt?: string;
-}> = ({ onRequest, isLoading, hasImage, setViewerInstruction, initialPrompt }) => {
+}> = ({ onRequest, isLoading, hasImage, initialPrompt }) => {
   const [userInput, setUserInput] = useState('');
   const [selectedPresetName, setSelectedPresetName] = useState<string>('The Standard');
   const [routedApplyPrompt, setRoutedApplyPrompt] = useState<string | null>(null);
   const [customPresets, setCustomPresets] = useState<any[]>([]);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [batchSize, setBatchSize] = useState(1);
+  const [editStrength, setEditStrength] = useState(55);
+  const [chaosLevel, setChaosLevel] = useState(0);
 
   const loadPresets = useCallback(async () => {
     try {
@@ -94,12 +99,12 @@ export const TypographicPanel: React.FC<{
     if (!applyPrompt) return;
     
     let basePrompt = userInput.trim() || "PIX";
-    const fullPrompt = `${applyPrompt} CONTENT: "${basePrompt.toUpperCase()}". Directives: Pure graphic asset, zero environmental noise, studio isolation.`;
+    const fullPrompt = `${applyPrompt} CONTENT: "${basePrompt.toUpperCase()}". Directives: Pure graphic asset, zero environmental noise, studio isolation.${hasImage ? ' Integrate glyphs into source geometry.' : ''}`;
 
     onRequest({ 
-      type: 'typography', prompt: fullPrompt, forceNew: !hasImage, aspectRatio: '1:1', 
+      type: 'typography', prompt: fullPrompt, forceNew: !hasImage, 
       systemInstructionOverride: hasImage ? PROTOCOLS.IMAGE_TRANSFORMER : PROTOCOLS.TYPOGRAPHER,
-      denoisingInstruction: hasImage ? "Medium denoising (55%). Integrate glyphs into source geometry." : ""
+      batchSize, editStrength, chaosLevel
     });
   };
 
@@ -174,6 +179,8 @@ export const TypographicPanel: React.FC<{
                 </div>
             </div>
 
+            {hasImage && <EditControls strength={editStrength} onStrengthChange={setEditStrength} chaos={chaosLevel} onChaosChange={setChaosLevel} disabled={isLoading} accentClassName="text-type accent-type" />}
+
             <div className="space-y-8 pb-4"> {/* Increased space-y for groups */}
               {Object.entries(presetGroups).map(([groupName, presets]) => (
                   <div key={groupName} className="w-full">
@@ -210,6 +217,8 @@ export const TypographicPanel: React.FC<{
         </div>
 
       <div className="p-4 border-t border-zinc-800 bg-surface-panel/90 shrink-0 relative z-10 backdrop-blur-md">
+         <AspectRatioSelector disabled={isLoading} activeClassName="bg-type border-type text-white" task={hasImage ? 'edit' : 'generate'} />
+         <BatchSelector value={batchSize} onChange={setBatchSize} disabled={isLoading} activeClassName="bg-type border-type text-white" />
          <button onClick={handleAction} disabled={isLoading || (!selectedPresetName && !routedApplyPrompt)} className="execute-btn group border-zinc-800 hover:border-type transition-colors">
               <div className="execute-btn-glow" style={{ background: 'radial-gradient(circle, #FF00FF 0%, transparent 70%)' }}></div>
               <div className="relative z-10 flex items-center justify-center gap-3 h-full">
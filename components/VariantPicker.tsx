@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CheckIcon, TrashIcon, XIcon } from './icons';
+import { BatchVariant } from '../App';
+
+interface VariantPickerProps {
+    variants: BatchVariant[];
+    failures?: { failed: number; total: number; message: string } | null; // Variants of the batch that did not resolve
+    onKeep: (ids: string[], parkRest: boolean) => void;
+    onDiscard: () => void;
+}
+
+/**
+ * Contact sheet shown over the canvas once a batch resolves. Selected variants
+ * go to history; the rest are either dropped or parked in the tray.
+ */
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, failures, onKeep, onDiscard }) => {
+    const [selected, setSelected] = useState<string[]>([]);
+
+    const toggle = (id: string) => {
+        setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    };
+    const hasRest = selected.length < variants.length;
+
+    return (
+        <div className="absolute inset-0 z-[65] flex flex-col bg-black/85 backdrop-blur-md p-4 animate-fade-in">
+            <div className="flex justify-between items-center mb-3">
+                <p className="text-[9px] font-black tracking-widest uppercase text-matrix font-mono">Contact_Sheet // {variants.length} Variants</p>
+                <button onClick={onDiscard} className="text-zinc-500 hover:text-red-500 transition-colors" title="Discard All">
+                    <XIcon className="w-4 h-4" />
+                </button>
+            </div>
+            {failures && (
+                <p className="mb-3 text-[8px] font-mono font-black uppercase tracking-widest text-red-400 truncate" title={failures.message}>
+                    {failures.failed}/{failures.total} failed // {failures.message}
+                </p>
+            )}
+
+            <div className="flex-1 grid grid-cols-2 gap-2 overflow-y-auto custom-scrollbar content-start">
+                {variants.map(variant => {
+                    const isSelected = selected.includes(variant.id);
+                    return (
+                        <button
+                            key={variant.id}
+                            onClick={() => toggle(variant.id)}
+                            className={`relative aspect-square border-2 transition-all overflow-hidden ${isSelected ? 'border-matrix shadow-neon-matrix' : 'border-white/10 hover:border-white/30'}`}
+                        >
+                            <img src={variant.url} alt={`Variant ${variant.batchIndex + 1}`} className="w-full h-full object-cover" />
+                            <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-black/70 text-[8px] font-mono font-black text-white">#{variant.batchIndex + 1}</span>
+                            {isSelected && (
+                                <span className="absolute top-1 right-1 w-5 h-5 bg-matrix flex items-center justify-center">
+                                    <CheckIcon className="w-3 h-3 text-black" />
+                                </span>
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <div className="flex gap-2 mt-3">
+                <button
+                    onClick={() => onKeep(selected, false)}
+                    disabled={selected.length === 0}
+                    className="flex-1 py-2 bg-matrix/10 border border-matrix/40 text-matrix text-[8px] font-black uppercase tracking-widest hover:bg-matrix hover:text-black transition-all disabled:opacity-30 disabled:pointer-events-none"
+                >
+                    Keep_Selected
+                </button>
+                {hasRest && (
+                    <button
+                        onClick={() => onKeep(selected, true)}
+                        className="flex-1 py-2 bg-white/5 border border-white/10 text-zinc-300 text-[8px] font-black uppercase tracking-widest hover:bg-white/20 transition-all"
+                    >
+                        {selected.length === 0 ? 'Park_All' : 'Keep + Park_Rest'}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface VariantTrayProps {
+    variants: BatchVariant[];
+    onRestore: (id: string) => void;
+    onRemove: (id: string) => void;
+}
+
+// Side strip holding parked variants until they are promoted to history or dropped
+export const VariantTray: React.FC<VariantTrayProps> = ({ variants, onRestore, onRemove }) => {
+    if (variants.length === 0) return null;
+    return (
+        <div className="absolute left-2 top-1/2 -translate-y-1/2 z-40 flex flex-col gap-1.5 max-h-[70%] overflow-y-auto custom-scrollbar p-1 bg-black/60 border border-white/5 backdrop-blur-md">
+            <span className="text-[6px] font-mono font-black text-zinc-500 uppercase tracking-widest text-center">Tray</span>
+            {variants.map(variant => (
+                <div key={variant.id} className="relative group w-12 h-12 border border-white/10 hover:border-matrix transition-colors">
+                    <button onClick={() => onRestore(variant.id)} className="w-full h-full" title="Move to History">
+                        <img src={variant.url} alt={`Parked variant ${variant.batchIndex + 1}`} className="w-full h-full object-cover" />
+                    </button>
+                    <button
+                        onClick={() => onRemove(variant.id)}
+                        className="absolute -top-1 -right-1 w-4 h-4 bg-black border border-white/10 text-zinc-500 hover:text-red-500 items-center justify-center hidden group-hover:flex"
+                        title="Discard"
+                    >
+                        <TrashIcon className="w-2.5 h-2.5" />
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -7,8 +7,14 @@
 
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import { GenerationRequest } from '../App';
+import { BatchSelector } from './BatchSelector';
+import { EditControls } from './EditControls';
+import { AspectRatioSelector } from './AspectRatioSelector';
 import { VectorIcon, SparklesIcon, SaveIcon, TrashIcon, XIcon } from './icons';
-import { describeImageForPrompt, PROTOCOLS, refineImagePrompt } from '../services/geminiService';
+import { PROTOCOLS } from '../services/geminiService';
+import { providerService } from '../services/providerService';
+import { progressService } from '../services/progressService';
+import { useAbortSignal } from '../hooks/useAbortSignal';
 import { loadUserPresets, addUserPreset, deleteUserPreset } from '../services/persistence';
 import { PresetSaveModal } from './PresetSaveModal';
 
@@ -69,10 +75,9 @@ export const VectorArtPanel: React.FC<{
   isLoading: boolean;
   hasImage: boolean;
   currentImageFile?: File | null;
-  setViewerInstruction: (text: string | null) => void;
   initialPrompt?: string;
   // isFastAiEnabled: boolean; // Removed, as model choice is now fixed
-}> = ({ onRequest, isLoading, hasImage, currentImageFile, setViewerInstruction, initialPrompt }) => {
+}> = ({ onRequest, isLoading, hasImage, currentImageFile, initialPrompt }) => {
   const [userPrompt, setUserPrompt] = useState('');
   const [selectedPresetName, setSelectedPresetName] = useState<string>('Stencil');
   const [isRefining, setIsRefining] = useState(false);
@@ -80,6 +85,10 @@ export const VectorArtPanel: React.FC<{
   const [localError, setLocalError] = useState<string | null>(null);
   const [customPresets, setCustomPresets] = useState<any[]>([]);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [batchSize, setBatchSize] = useState(1);
+  const [editStrength, setEditStrength] = useState(70);
+  const [chaosLevel, setChaosLevel] = useState(0);
+  const nextSignal = useAbortSignal();
 
   const loadPresets = useCallback(async () => {
     try {
@@ -106,15 +115,16 @@ export const VectorArtPanel: React.FC<{
   const allPresets = useMemo(() => Object.values(presetGroups).flat() as VectorPreset[], [presetGroups]);
   const selectedPreset = useMemo(() => allPresets.find(p => p.name === selectedPresetName), [selectedPresetName, allPresets]);
 
-  const handleApply = async () => {
+  // Shift+Click skips the analysis cache
+  const handleApply = async (e?: React.MouseEvent) => {
     setIsAnalyzing(true);
     setLocalError(null);
     try {
         let effectiveSubject = userPrompt.trim();
         if (!effectiveSubject && hasImage && currentImageFile) {
-            setViewerInstruction("ANALYZING_SOURCE...");
-            effectiveSubject = await describeImageForPrompt(currentImageFile).catch(() => "primary subject");
-            setViewerInstruction(null);
+            const signal = nextSignal('describe');
+            effectiveSubject = await progressService.track('describe', job => providerService.getTextProvider('vector').describeImage(currentImageFile, job, signal, e?.shiftKey), "ANALYZING_SOURCE...").catch(() => "primary subject");
+            if (signal.aborted) return;
         } else if (!effectiveSubject) effectiveSubject = "primary subject";
 
         let fullPrompt = "";
@@ -132,7 +142,7 @@ export const VectorArtPanel: React.FC<{
              sysOverride = hasImage ? PROTOCOLS.IMAGE_TRANSFORMER : PROTOCOLS.DESIGNER;
         }
 
-        onRequest({ type: 'vector', prompt: fullPrompt, forceNew: !hasImage, aspectRatio: '1:1', systemInstructionOverride: sysOverride });
+        onRequest({ type: 'vector', prompt: fullPrompt, forceNew: !hasImage, systemInstructionOverride: sysOverride, batchSize, editStrength, chaosLevel });
     } catch (e: any) { setLocalError(e.message || "Malfunction."); } 
     finally { setIsAnalyzing(false); }
   };
@@ -140,12 +150,9 @@ export const VectorArtPanel: React.FC<{
   const handleRefine = async () => {
     if (!userPrompt.trim() || isRefining) return;
     setIsRefining(true);
-    setViewerInstruction("REFINING_PROMPT_GRAMMAR...");
-    try { setUserPrompt(await refineImagePrompt(userPrompt)); } catch (e) {} 
-    finally { 
-      setIsRefining(false); 
-      setViewerInstruction(null);
-    }
+    const signal = nextSignal('refine');
+    try { setUserPrompt(await progressService.track('refine', job => providerService.getTextProvider('vector').refinePrompt(userPrompt, false, job, signal))); } catch (e) {} 
+    finally { setIsRefining(false); }
   };
 
   const handleSavePreset = async (name: string, desc: string) => {
@@ -224,6 +231,8 @@ export const VectorArtPanel: React.FC<{
               </div>
           </div>
 
+          {hasImage && <EditControls strength={editStrength} onStrengthChange={setEditStrength} chaos={chaosLevel} onChaosChange={setChaosLevel} disabled={isLoading} accentClassName="text-vector accent-vector" />}
+
           <div className="space-y-8 pb-4"> {/* Increased space-y for groups */}
             {Object.entries(presetGroups).map(([groupName, presets]) => (
                 <div key={groupName} className="w-full">
@@ -259,7 +268,9 @@ export const VectorArtPanel: React.FC<{
       </div>
 
       <div className="p-4 border-t border-zinc-800 bg-surface-panel/90 shrink-0 relative z-10 backdrop-blur-md">
-          <button onClick={handleApply} disabled={isLoading || isAnalyzing || (!selectedPresetName && !userPrompt.trim() && !hasImage)} className="execute-btn group border-zinc-800 hover:border-vector transition-colors">
+          <AspectRatioSelector disabled={isLoading} activeClassName="bg-vector border-vector text-white" task={hasImage ? 'edit' : 'generate'} />
+          <BatchSelector value={batchSize} onChange={setBatchSize} disabled={isLoading} activeClassName="bg-vector border-vector text-white" />
+          <button onClick={handleApply} title="Shift+Click re-analyzes the source, bypassing the analysis cache" disabled={isLoading || isAnalyzing || (!selectedPresetName && !userPrompt.trim() && !hasImage)} className="execute-btn group border-zinc-800 hover:border-vector transition-colors">
               <div className="execute-btn-glow" style={{ background: 'radial-gradient(circle, #00FFCC 0%, transparent 70%)' }}></div>
               <div className="relative z-10 flex items-center justify-center gap-3 h-full">
                   <span className={`font-black italic uppercase tracking-[0.2em] text-[10px] transition-colors skew-x-[-10deg] ${isLoading || isAnalyzing ? 'text-zinc-500' : 'text-zinc-500 group-hover:text-vector'}`}>
@@ -154,6 +154,12 @@ export const CheckIcon: React.FC<{ className?: string }> = ({ className }) => (
   </BaseSVG>
 );
 
+export const StarIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <BaseSVG className={className}>
+    <polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2" />
+  </BaseSVG>
+);
+
 export const AlertIcon: React.FC<{ className?: string }> = ({ className }) => (
   <BaseSVG className={className}>
     <circle cx="12" cy="12" r="10" /><line x1="12" y1="8" x2="12" y2="12" /><line x1="12" y1="16" x2="12.01" y2="16" />
@@ -7,10 +7,12 @@
 
 import React, { createContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { audioService } from '../services/audioService';
+import { ASPECT_RATIO_CHOICES, AspectRatioChoice, OUTPUT_SIZES, OutputSize } from '../utils/aspectRatio';
+import { modelCatalog, DEFAULT_TASK_MODELS } from '../services/modelCatalog';
 
 type Theme = 'dark' | 'light';
-// Removed 'gemini-3-pro-image-preview' as an option
-export type ImageModel = 'gemini-2.5-flash-image'; 
+// Any image-output id from the model catalog
+export type ImageModel = string;
 
 interface AppContextType {
     isLoading: boolean;
@@ -21,10 +23,13 @@ interface AppContextType {
     toggleTheme: () => void;
     pixelRatio: number;
     density: 'compact' | 'standard' | 'large';
-    imageModel: ImageModel;
-    // Removed setImageModel from type as it's no longer user-selectable
+    imageModel: ImageModel; // Mirrors the catalog choice for text-to-image; change it via modelCatalog
     isAudioMuted: boolean;
     toggleAudio: () => void;
+    aspectRatio: AspectRatioChoice; // Shared by every generating panel
+    setAspectRatio: (ratio: AspectRatioChoice) => void;
+    outputSize: OutputSize;
+    setOutputSize: (size: OutputSize) => void;
 }
 
 export const AppContext = createContext<AppContextType>({
@@ -36,10 +41,13 @@ export const AppContext = createContext<AppContextType>({
     toggleTheme: () => {},
     pixelRatio: 1,
     density: 'standard',
-    imageModel: 'gemini-2.5-flash-image',
-    // setImageModel: () => {}, // Removed
+    imageModel: DEFAULT_TASK_MODELS.generate,
     isAudioMuted: false,
     toggleAudio: () => {},
+    aspectRatio: '1:1',
+    setAspectRatio: () => {},
+    outputSize: '1K',
+    setOutputSize: () => {},
 });
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -48,8 +56,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const [pixelRatio, setPixelRatio] = useState(window.devicePixelRatio || 1);
     const [density, setDensity] = useState<'compact' | 'standard' | 'large'>('standard');
     
-    // Always default to 'gemini-2.5-flash-image'
-    const [imageModel, setImageModel] = useState<ImageModel>('gemini-2.5-flash-image');
+    const [imageModel, setImageModel] = useState<ImageModel>(() => modelCatalog.getModelId('generate'));
+    useEffect(() => modelCatalog.subscribe(choices => setImageModel(choices.generate)), []);
 
     const [isAudioMuted, setIsAudioMuted] = useState(() => {
         try {
@@ -59,6 +67,24 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     });
 
+    const [aspectRatio, setAspectRatioState] = useState<AspectRatioChoice>(() => {
+        try {
+            const saved = localStorage.getItem('app-aspect-ratio') as AspectRatioChoice;
+            return ASPECT_RATIO_CHOICES.includes(saved) ? saved : '1:1';
+        } catch {
+            return '1:1';
+        }
+    });
+
+    const [outputSize, setOutputSizeState] = useState<OutputSize>(() => {
+        try {
+            const saved = localStorage.getItem('app-output-size') as OutputSize;
+            return OUTPUT_SIZES.includes(saved) ? saved : '1K';
+        } catch {
+            return '1K';
+        }
+    });
+
     const [theme, setTheme] = useState<Theme>(() => {
         try {
             const saved = localStorage.getItem('app-theme');
@@ -100,11 +126,6 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return () => window.removeEventListener('resize', updateMetrics);
     }, [updateMetrics]);
 
-    // Removed localStorage saving for imageModel as it's no longer user-selectable
-    // useEffect(() => {
-    //     localStorage.setItem('app-image-model', imageModel);
-    // }, [imageModel]);
-
     const toggleTheme = () => {
         setTheme(prev => {
             const newTheme = prev === 'dark' ? 'light' : 'dark';
@@ -122,11 +143,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         });
     };
 
+    const setAspectRatio = useCallback((ratio: AspectRatioChoice) => {
+        setAspectRatioState(ratio);
+        localStorage.setItem('app-aspect-ratio', ratio);
+    }, []);
+
+    const setOutputSize = useCallback((size: OutputSize) => {
+        setOutputSizeState(size);
+        localStorage.setItem('app-output-size', size);
+    }, []);
+
     return (
         <AppContext.Provider value={{ 
             isLoading, setIsLoading, isFastAiEnabled, setIsFastAiEnabled, 
-            theme, toggleTheme, pixelRatio, density, imageModel, // imageModel is now fixed
-            isAudioMuted, toggleAudio
+            theme, toggleTheme, pixelRatio, density, imageModel,
+            isAudioMuted, toggleAudio,
+            aspectRatio, setAspectRatio, outputSize, setOutputSize
         }}>
             {children}
         </AppContext.Provider>
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+
+// Fresh AbortSignal per call of `kind`; a new call cancels the previous one, unmounting cancels all
+export const useAbortSignal = () => {
+    const controllers = useRef(new Map<string, AbortController>());
+
+    useEffect(() => () => controllers.current.forEach(c => c.abort()), []);
+
+    return useCallback((kind: string) => {
+        controllers.current.get(kind)?.abort();
+        const controller = new AbortController();
+        controllers.current.set(kind, controller);
+        return controller.signal;
+    }, []);
+};
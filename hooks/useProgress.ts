@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { progressService, ProgressEvent } from '../services/progressService';
+
+export interface ProgressSnapshot extends ProgressEvent {
+    elapsedMs: number;
+    etaMs?: number;
+}
+
+const TICK_MS = 250;
+
+const snapshot = (event: ProgressEvent | null): ProgressSnapshot | null => {
+    if (!event) return null;
+    const elapsedMs = Date.now() - event.startedAt;
+    return {
+        ...event,
+        elapsedMs,
+        etaMs: event.expectedMs !== undefined ? Math.max(0, event.expectedMs - elapsedMs) : undefined,
+    };
+};
+
+// Current job with live elapsed time and ETA; re-renders on every event and each tick while a job runs
+export const useProgress = (): ProgressSnapshot | null => {
+    const [current, setCurrent] = useState(() => snapshot(progressService.getCurrent()));
+
+    useEffect(() => progressService.subscribe(() => setCurrent(snapshot(progressService.getCurrent()))), []);
+
+    const running = current !== null;
+    useEffect(() => {
+        if (!running) return;
+        const interval = setInterval(() => setCurrent(snapshot(progressService.getCurrent())), TICK_MS);
+        return () => clearInterval(interval);
+    }, [running]);
+
+    return current;
+};
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { modelCatalog, ModelInfo, ModelTask } from '../services/modelCatalog';
+
+// Model currently chosen for `task`, so panels can disable what it cannot do
+export const useTaskModel = (task: ModelTask): ModelInfo => {
+    const [model, setModel] = useState(() => modelCatalog.getModel(task));
+
+    useEffect(() => {
+        setModel(modelCatalog.getModel(task));
+        return modelCatalog.subscribe(() => setModel(modelCatalog.getModel(task)));
+    }, [task]);
+
+    return model;
+};
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentParameters } from "@google/genai";
+import { getCachedAnalysis, putCachedAnalysis, loadCachedAnalyses, deleteCachedAnalyses, clearAnalysisCache } from './persistence';
+import { base64ToBytes, sha256Hex } from '../utils/hash';
+
+interface CachedAnalysis {
+    id: string;
+    model: string;
+    text: string;
+    size: number; // Bytes of text, counted against MAX_BYTES
+    createdAt: number;
+    accessedAt: number;
+}
+
+export interface AnalysisCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TTL_MS = 7 * DAY_MS;
+const MAX_ENTRIES = 200;
+const MAX_BYTES = 2 * 1024 * 1024;
+
+const toParts = (contents: any): any[] => {
+    if (typeof contents === 'string') return [{ text: contents }];
+    if (Array.isArray(contents)) return contents.flatMap(toParts);
+    if (contents?.parts) return contents.parts;
+    return [contents];
+};
+
+/**
+ * Text responses of image analysis calls (describe, style extraction), addressed by
+ * a SHA-256 of the image bytes plus prompt, model, system instruction and response schema. Entries
+ * expire after TTL_MS and the least recently used are evicted past the size limits.
+ */
+class AnalysisCacheService {
+    private listeners: (() => void)[] = [];
+
+    public async keyFor(params: GenerateContentParameters): Promise<string> {
+        const { systemInstruction, responseMimeType, responseSchema } = (params.config || {}) as Record<string, any>;
+        const parts = await Promise.all(toParts(params.contents).map(async (part: any) =>
+            part.inlineData ? `image:${await sha256Hex(base64ToBytes(part.inlineData.data))}` : `text:${part.text ?? ''}`
+        ));
+        return sha256Hex(JSON.stringify({
+            model: params.model,
+            systemInstruction: typeof systemInstruction === 'string' ? systemInstruction : undefined,
+            // Same prompt, different output contract: the cached text would not parse as the other shape
+            responseMimeType,
+            responseSchema,
+            parts,
+        }));
+    }
+
+    public async get(key: string): Promise<string | null> {
+        try {
+            const entry = await getCachedAnalysis(key) as CachedAnalysis | null;
+            if (!entry) return null;
+            if (Date.now() - entry.createdAt > TTL_MS) {
+                await deleteCachedAnalyses([key]);
+                return null;
+            }
+            await putCachedAnalysis({ ...entry, accessedAt: Date.now() });
+            return entry.text;
+        } catch (e) {
+            console.warn("AnalysisCache: lookup failed", e);
+            return null;
+        }
+    }
+
+    public async set(key: string, model: string, text: string): Promise<void> {
+        const now = Date.now();
+        const entry: CachedAnalysis = { id: key, model, text, size: new Blob([text]).size, createdAt: now, accessedAt: now };
+        if (entry.size > MAX_BYTES) return;
+        try {
+            await putCachedAnalysis(entry);
+            await this.evict();
+            this.notify();
+        } catch (e) {
+            // A cache write must never fail the analysis it is caching
+            console.warn("AnalysisCache: failed to store entry", e);
+        }
+    }
+
+    // Drops an entry that no longer parses, so the next lookup goes to the network
+    public async delete(key: string): Promise<void> {
+        try {
+            await deleteCachedAnalyses([key]);
+            this.notify();
+        } catch (e) {
+            console.warn("AnalysisCache: failed to drop entry", e);
+        }
+    }
+
+    public async stats(): Promise<AnalysisCacheStats> {
+        const entries = await loadCachedAnalyses() as CachedAnalysis[];
+        return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+    }
+
+    public async clear(): Promise<void> {
+        await clearAnalysisCache();
+        this.notify();
+    }
+
+    public subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    // Drops expired entries, then the least recently used until both limits hold
+    private async evict() {
+        const entries = await loadCachedAnalyses() as CachedAnalysis[];
+        const now = Date.now();
+        const stale = entries.filter(e => now - e.createdAt > TTL_MS).map(e => e.id);
+        const live = entries.filter(e => now - e.createdAt <= TTL_MS);
+        let bytes = live.reduce((sum, e) => sum + e.size, 0);
+        let count = live.length;
+        for (const entry of live) {
+            if (count <= MAX_ENTRIES && bytes <= MAX_BYTES) break;
+            stale.push(entry.id);
+            bytes -= entry.size;
+            count--;
+        }
+        await deleteCachedAnalyses(stale);
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+}
+
+export const analysisCache = new AnalysisCacheService();
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { usageService, UsageTotals } from './usageService';
+
+export interface BudgetLimits {
+    dailySpend?: number;      // USD
+    monthlySpend?: number;    // USD
+    dailyRequests?: number;
+    monthlyRequests?: number;
+    warnAt: number;           // Fraction of any cap that triggers a soft warning
+    resetHour: number;        // Local hour the daily window starts
+    resetDay: number;         // Day of month the monthly window starts (1-28)
+}
+
+export type BudgetLevel = 'ok' | 'warn' | 'blocked';
+
+export interface BudgetStatus {
+    level: BudgetLevel;
+    message: string | null;
+    daily: UsageTotals;
+    monthly: UsageTotals;
+    dailyResetsAt: number;
+    monthlyResetsAt: number;
+}
+
+const LIMITS_KEY = 'pixshop-budget-limits';
+
+export const DEFAULT_LIMITS: BudgetLimits = { warnAt: 0.8, resetHour: 0, resetDay: 1 };
+
+const dailyWindowStart = (now: Date, resetHour: number) => {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate(), resetHour);
+    if (start > now) start.setDate(start.getDate() - 1);
+    return start;
+};
+
+const monthlyWindowStart = (now: Date, resetDay: number, resetHour: number) => {
+    const start = new Date(now.getFullYear(), now.getMonth(), resetDay, resetHour);
+    if (start > now) start.setMonth(start.getMonth() - 1);
+    return start;
+};
+
+interface Cap {
+    label: string;
+    used: number;
+    limit?: number;
+    format: (n: number) => string;
+    isSpend: boolean; // Spend blocks once reached, request counts once exceeded
+}
+
+/**
+ * Spend and request caps for the shared key, checked against the usage ledger
+ * before a metered generation is dispatched.
+ */
+class BudgetService {
+    private limits: BudgetLimits = { ...DEFAULT_LIMITS };
+    private listeners: ((limits: BudgetLimits) => void)[] = [];
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(LIMITS_KEY);
+            if (saved) this.limits = { ...DEFAULT_LIMITS, ...JSON.parse(saved) };
+        } catch (e) {}
+    }
+
+    public getLimits(): BudgetLimits {
+        return this.limits;
+    }
+
+    public setLimits(patch: Partial<BudgetLimits>) {
+        this.limits = { ...this.limits, ...patch };
+        try {
+            localStorage.setItem(LIMITS_KEY, JSON.stringify(this.limits));
+        } catch (e) {}
+        this.listeners.forEach(l => l(this.limits));
+    }
+
+    public subscribe(listener: (limits: BudgetLimits) => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /** Status of both windows if `pendingRequests` more calls were dispatched now. */
+    public async check(pendingRequests = 0): Promise<BudgetStatus> {
+        const now = new Date();
+        const dailyStart = dailyWindowStart(now, this.limits.resetHour);
+        const monthlyStart = monthlyWindowStart(now, this.limits.resetDay, this.limits.resetHour);
+        const [daily, monthly] = await Promise.all([
+            usageService.totalsSince(dailyStart.getTime()),
+            usageService.totalsSince(monthlyStart.getTime()),
+        ]);
+
+        const usd = (n: number) => `$${n.toFixed(2)}`;
+        const count = (n: number) => String(n);
+        // Spend is only known after the fact, so only request caps account for the pending batch
+        const caps: Cap[] = [
+            { label: 'Daily spend', used: daily.cost, limit: this.limits.dailySpend, format: usd, isSpend: true },
+            { label: 'Monthly spend', used: monthly.cost, limit: this.limits.monthlySpend, format: usd, isSpend: true },
+            { label: 'Daily requests', used: daily.requests + pendingRequests, limit: this.limits.dailyRequests, format: count, isSpend: false },
+            { label: 'Monthly requests', used: monthly.requests + pendingRequests, limit: this.limits.monthlyRequests, format: count, isSpend: false },
+        ];
+
+        let level: BudgetLevel = 'ok';
+        let message: string | null = null;
+        for (const cap of caps) {
+            if (!cap.limit) continue;
+            const describe = `${cap.label} ${cap.format(cap.used)} of ${cap.format(cap.limit)}`;
+            if (cap.isSpend ? cap.used >= cap.limit : cap.used > cap.limit) {
+                level = 'blocked';
+                message = `${describe} cap reached.`;
+                break;
+            }
+            if (level === 'ok' && cap.used >= cap.limit * this.limits.warnAt) {
+                level = 'warn';
+                message = `${describe} used.`;
+            }
+        }
+
+        const dailyReset = new Date(dailyStart);
+        dailyReset.setDate(dailyReset.getDate() + 1);
+        const monthlyReset = new Date(monthlyStart);
+        monthlyReset.setMonth(monthlyReset.getMonth() + 1);
+        return { level, message, daily, monthly, dailyResetsAt: dailyReset.getTime(), monthlyResetsAt: monthlyReset.getTime() };
+    }
+}
+
+export const budgetService = new BudgetService();
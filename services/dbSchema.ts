@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const DB_NAME = 'PixshopDB';
+
+export const STORES = {
+    history: 'history',               // One session record per project, keyed by project id
+    presets: 'style_presets',         // A single bundle record holding every user preset
+    config: 'app_config',             // Application-wide configs like custom drone audio
+    recordings: 'recordings',         // Recorded API request/response pairs keyed by fingerprint
+    usage: 'usage',                   // Token usage per API response, indexed by timestamp
+    analysisCache: 'analysis_cache',  // Analysis responses keyed by content hash, indexed by last access
+    keys: 'api_keys',                 // Named provider API keys, optionally passphrase-encrypted
+    projects: 'projects',             // Project names, timestamps and cover thumbnails
+    quarantine: 'quarantine',         // Records that failed validation, moved aside by repair
+    blobs: 'blobs',                   // Index of content-addressed image blobs; holds the bytes when OPFS is unavailable
+} as const;
+
+export const PRESET_BUNDLE_ID = 'custom_presets';
+const LEGACY_PRESETS_KEY = 'user_style_presets';
+
+export interface Migration {
+    version: number;
+    description: string;
+    // Runs inside the versionchange transaction; may only issue requests on `tx`
+    migrate: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+// Store creation stays idempotent: databases written before this registry existed
+// may already have stores from a later step
+const ensureStore = (db: IDBDatabase, tx: IDBTransaction, name: string, indexes: string[] = []) => {
+    const store = db.objectStoreNames.contains(name) ? tx.objectStore(name) : db.createObjectStore(name, { keyPath: 'id' });
+    indexes.forEach(index => {
+        if (!store.indexNames.contains(index)) store.createIndex(index, index);
+    });
+};
+
+const readLegacyPresets = (): any[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(LEGACY_PRESETS_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+// Presets used to be stored one record each, and before that in localStorage
+const bundlePresets = (tx: IDBTransaction) => {
+    const store = tx.objectStore(STORES.presets);
+    const request = store.getAll();
+    request.onsuccess = () => {
+        const records: any[] = request.result;
+        const bundle = records.find(r => r.id === PRESET_BUNDLE_ID);
+        const loose = records.filter(r => r.id !== PRESET_BUNDLE_ID);
+        const bundled: any[] = Array.isArray(bundle?.data) ? bundle.data : [];
+        const known = new Set(bundled.map(p => p?.id));
+        let presets = [...bundled, ...loose.filter(p => !known.has(p.id))];
+        if (presets.length === 0) presets = readLegacyPresets();
+
+        loose.forEach(r => store.delete(r.id));
+        if (presets.length > bundled.length) store.put({ id: PRESET_BUNDLE_ID, data: presets, timestamp: Date.now() });
+    };
+};
+
+/**
+ * Every schema change, in order. `openDB` runs each step newer than the stored
+ * version; append a step and its validator changes here instead of editing old ones.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 3,
+        description: 'Baseline: session history, style presets and app config',
+        migrate: (db, tx) => {
+            ensureStore(db, tx, STORES.history);
+            ensureStore(db, tx, STORES.presets);
+            ensureStore(db, tx, STORES.config);
+        },
+    },
+    { version: 4, description: 'Recorded API sessions', migrate: (db, tx) => ensureStore(db, tx, STORES.recordings) },
+    { version: 5, description: 'Usage ledger', migrate: (db, tx) => ensureStore(db, tx, STORES.usage, ['timestamp']) },
+    { version: 6, description: 'Analysis cache', migrate: (db, tx) => ensureStore(db, tx, STORES.analysisCache, ['accessedAt']) },
+    { version: 7, description: 'Key vault', migrate: (db, tx) => ensureStore(db, tx, STORES.keys) },
+    { version: 8, description: 'Projects', migrate: (db, tx) => ensureStore(db, tx, STORES.projects) },
+    {
+        version: 9,
+        description: 'Quarantine store; presets folded into a single bundle',
+        migrate: (db, tx) => {
+            ensureStore(db, tx, STORES.quarantine);
+            bundlePresets(tx);
+        },
+    },
+    // Sessions move from inline blobs to hash references lazily, on their next save
+    { version: 10, description: 'Content-addressed blob store', migrate: (db, tx) => ensureStore(db, tx, STORES.blobs) },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = (db: IDBDatabase, tx: IDBTransaction, fromVersion: number) => {
+    MIGRATIONS.filter(m => m.version > fromVersion).forEach(m => {
+        console.log(`Persistence: migrating to v${m.version} (${m.description})`);
+        m.migrate(db, tx);
+    });
+};
+
+// --- Validators ---
+
+// Returns what is wrong with a record, or null when it is usable
+type Validator = (record: any) => string | null;
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+const requireFields = (record: any, fields: Record<string, (value: any) => boolean>): string | null => {
+    for (const [field, check] of Object.entries(fields)) {
+        if (!check(record[field])) return `Field "${field}" is missing or malformed`;
+    }
+    return null;
+};
+
+const validateSessionFile = (file: any) =>
+    isObject(file) && (typeof file.hash === 'string' || file.data instanceof Blob || typeof file.data === 'string');
+
+const validateHistory: Validator = record => {
+    if (record.schema === 2 || record.schema === 3) {
+        if (!Array.isArray(record.items)) return 'Session has no item list';
+        const bad = record.items.findIndex((item: any) => !isObject(item?.meta) || typeof item.meta.id !== 'string' || !validateSessionFile(item.content));
+        if (bad !== -1) return `Session item ${bad} is unreadable`;
+        if (record.blocked !== undefined && !Array.isArray(record.blocked)) return 'Session blocked log is not a list';
+        return requireFields(record, { currentId: v => v === null || typeof v === 'string', activeChildren: isObject });
+    }
+    if (!Array.isArray(record.history)) return 'Session has no history list';
+    return record.history.every(validateSessionFile) ? null : 'Session file entry is unreadable';
+};
+
+const validatePresets: Validator = record => {
+    if (record.id !== PRESET_BUNDLE_ID) return 'Loose preset outside the bundle';
+    if (!Array.isArray(record.data)) return 'Preset bundle has no list';
+    return record.data.every((p: any) => isObject(p) && typeof p.id === 'string') ? null : 'Preset without an id';
+};
+
+const VALIDATORS: Record<string, Validator> = {
+    [STORES.history]: validateHistory,
+    [STORES.presets]: validatePresets,
+    [STORES.config]: () => null,
+    [STORES.recordings]: () => null,
+    [STORES.usage]: record => requireFields(record, { timestamp: isNumber }),
+    [STORES.analysisCache]: record => requireFields(record, { accessedAt: isNumber }),
+    [STORES.keys]: record => requireFields(record, {
+        provider: v => typeof v === 'string',
+        secret: v => v === undefined || typeof v === 'string',
+        sealed: v => v === undefined || isObject(v),
+    }) || (record.secret === undefined && record.sealed === undefined ? 'Key has no secret' : null),
+    [STORES.blobs]: record => requireFields(record, {
+        size: isNumber,
+        createdAt: isNumber,
+        backend: v => v === 'opfs' || v === 'idb',
+    }) || (record.backend === 'idb' && !(record.data instanceof Blob) ? 'Fallback blob has no bytes' : null),
+    [STORES.projects]: record => requireFields(record, {
+        name: v => typeof v === 'string',
+        createdAt: isNumber,
+        updatedAt: isNumber,
+        cover: v => v === undefined || v instanceof Blob,
+    }),
+};
+
+/** Stores checked by the integrity scan; quarantine is excluded on purpose. */
+export const VALIDATED_STORES = Object.keys(VALIDATORS);
+
+export const validateRecord = (store: string, record: unknown): string | null => {
+    if (!isObject(record) || typeof record.id !== 'string') return 'Record is not an object with a string id';
+    return VALIDATORS[store]?.(record) ?? null;
+};
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { PixshopError } from './errors';
+
 export type LogType = 'log' | 'warn' | 'error' | 'info';
 
 export interface LogEntry {
@@ -54,6 +56,10 @@ class DebugService {
   private addLog(type: LogType, args: any[]) {
     try {
         const message = args.map(arg => {
+            if (arg instanceof PixshopError) {
+                const tags = [arg.code, arg.status, arg.retryable ? 'RETRYABLE' : null].filter(Boolean).join(' ');
+                return `[${tags}] ${arg.userMessage}\n${arg.stack}`;
+            }
             if (arg instanceof Error) return `${arg.message}\n${arg.stack}`;
             if (typeof arg === 'object') {
                 try {
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type PixshopErrorCode =
+    | 'NEURAL_LINK_NULL'   // No API key configured
+    | 'AUTH_DENIED'        // Key rejected (401/403)
+    | 'VAULT_LOCKED'       // Active key is passphrase-encrypted and not unlocked yet
+    | 'BUFFER_OVERFLOW'    // Rate limited or quota exhausted (429)
+    | 'SYNTHESIS_ABORTED'  // Safety filter blocked the response
+    | 'BUFFER_EMPTY'       // Response carried no candidate
+    | 'PARSING_FAULT'      // Response carried no usable payload
+    | 'BAD_REQUEST'        // Request rejected as malformed (400)
+    | 'IO_FAULT'           // Local file could not be read or rendered
+    | 'NETWORK_FAULT'      // Request never reached the API
+    | 'SERVER_FAULT'       // API failed on its side (5xx)
+    | 'REPLAY_MISS'        // Replay mode has no recording for the request
+    | 'BUNDLE_INVALID'     // Imported file is not a session bundle
+    | 'PROJECT_MISSING'    // Project record no longer exists
+    | 'CANCELLED'          // Aborted by the user
+    | 'BUDGET_EXCEEDED'    // Spend or request cap reached; needs an explicit override
+    | 'SYNTHESIS_FAULT';   // Anything unclassified
+
+interface PixshopErrorOptions {
+    status?: number;
+    retryable?: boolean;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every failure surfaced by the service layer. `message` keeps the
+ * familiar `CODE: text` shape, `userMessage` is the text alone for banners.
+ */
+export class PixshopError extends Error {
+    readonly code: PixshopErrorCode;
+    readonly retryable: boolean;
+    readonly status?: number;
+    readonly userMessage: string;
+    readonly cause?: unknown;
+
+    constructor(code: PixshopErrorCode, userMessage: string, options: PixshopErrorOptions = {}) {
+        super(`${code}: ${userMessage}`);
+        this.name = 'PixshopError';
+        this.code = code;
+        this.userMessage = userMessage;
+        this.retryable = options.retryable ?? false;
+        this.status = options.status;
+        this.cause = options.cause;
+    }
+}
+
+export class AuthError extends PixshopError {
+    constructor(code: 'NEURAL_LINK_NULL' | 'AUTH_DENIED' | 'VAULT_LOCKED', userMessage: string, options: PixshopErrorOptions = {}) {
+        super(code, userMessage, { ...options, retryable: false });
+        this.name = 'AuthError';
+    }
+}
+
+export class RateLimitError extends PixshopError {
+    readonly retryAfterMs?: number;
+
+    constructor(userMessage: string, options: PixshopErrorOptions & { retryAfterMs?: number } = {}) {
+        super('BUFFER_OVERFLOW', userMessage, { status: 429, ...options, retryable: true });
+        this.name = 'RateLimitError';
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+export interface SafetyRatingInfo {
+    category: string;      // e.g. HARM_CATEGORY_DANGEROUS_CONTENT
+    probability: string;   // NEGLIGIBLE | LOW | MEDIUM | HIGH
+    blocked: boolean;      // This category is the one that stopped the response
+}
+
+// What the API reported about a block, kept so blocked prompts can be reviewed and rewritten
+export interface SafetyDetails {
+    reason: string;        // finishReason or promptFeedback.blockReason
+    stage: 'prompt' | 'response';
+    model?: string;
+    ratings: SafetyRatingInfo[];
+}
+
+export class SafetyError extends PixshopError {
+    readonly details?: SafetyDetails;
+    attemptId?: string; // Blocked-log entry written for this error, once the caller has logged it
+
+    constructor(userMessage: string, options: PixshopErrorOptions & { details?: SafetyDetails } = {}) {
+        super('SYNTHESIS_ABORTED', userMessage, { ...options, retryable: false });
+        this.name = 'SafetyError';
+        this.details = options.details;
+    }
+}
+
+export class ResponseError extends PixshopError {
+    constructor(code: 'BUFFER_EMPTY' | 'PARSING_FAULT', userMessage: string, options: PixshopErrorOptions = {}) {
+        // The model occasionally answers with text only; a fresh attempt usually succeeds
+        super(code, userMessage, { retryable: true, ...options });
+        this.name = 'ResponseError';
+    }
+}
+
+export class NetworkError extends PixshopError {
+    constructor(userMessage: string, options: PixshopErrorOptions = {}) {
+        super('NETWORK_FAULT', userMessage, { ...options, retryable: true });
+        this.name = 'NetworkError';
+    }
+}
+
+export class ServerError extends PixshopError {
+    constructor(userMessage: string, options: PixshopErrorOptions = {}) {
+        super('SERVER_FAULT', userMessage, { ...options, retryable: true });
+        this.name = 'ServerError';
+    }
+}
+
+export class InputError extends PixshopError {
+    constructor(code: 'BAD_REQUEST' | 'IO_FAULT', userMessage: string, options: PixshopErrorOptions = {}) {
+        super(code, userMessage, { ...options, retryable: false });
+        this.name = 'InputError';
+    }
+}
+
+export class CancelledError extends PixshopError {
+    constructor(options: PixshopErrorOptions = {}) {
+        super('CANCELLED', "Synthesis aborted by operator.", { ...options, retryable: false });
+        this.name = 'CancelledError';
+    }
+}
+
+export class BudgetError extends PixshopError {
+    constructor(userMessage: string, options: PixshopErrorOptions = {}) {
+        super('BUDGET_EXCEEDED', userMessage, { ...options, retryable: false });
+        this.name = 'BudgetError';
+    }
+}
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new CancelledError();
+};
+
+// The SDK reports HTTP failures as `got status: 429 Too Many Requests. {json body}`
+const parseStatus = (message: string): number | undefined => {
+    const match = message.match(/got status:\s*(\d{3})/) || message.match(/"code":\s*(\d{3})/);
+    return match ? Number(match[1]) : undefined;
+};
+
+// RetryInfo details carry e.g. `"retryDelay": "13s"`
+const parseRetryAfter = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Classifies anything thrown by an SDK, fetch or the browser into the taxonomy.
+ */
+export const normalizeError = (e: unknown): PixshopError => {
+    if (e instanceof PixshopError) return e;
+    if ((e as any)?.name === 'AbortError') return new CancelledError({ cause: e });
+
+    const message = e instanceof Error ? e.message : String(e);
+    const status = parseStatus(message);
+
+    if (status === 401 || status === 403 || message.includes('API key not valid')) {
+        return new AuthError('AUTH_DENIED', "Invalid Neural Link Key. Reset via Config.", { status, cause: e });
+    }
+    if (status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+        return new RateLimitError("API rate limit reached. Cool down.", { cause: e, retryAfterMs: parseRetryAfter(message) });
+    }
+    if (status === 400) {
+        return new InputError('BAD_REQUEST', "Request rejected by the model. Adjust the prompt or source.", { status, cause: e });
+    }
+    if (status && status >= 500) {
+        return new ServerError("Neural core unavailable. Try again shortly.", { status, cause: e });
+    }
+    if (e instanceof TypeError && /fetch|network/i.test(message)) {
+        return new NetworkError("Link severed. Check your connection.", { cause: e });
+    }
+    return new PixshopError('SYNTHESIS_FAULT', message || "Unknown synthesis failure.", { status, cause: e });
+};
@@ -4,15 +4,66 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, SafetyRating, Type } from "@google/genai";
+import { ImageGenerationConfig, ImageGenerationResult, ImageProvider, RouteSuggestion, RoutedStyle, STYLE_PANEL_IDS, StylePanelId, TextProvider } from './providerService';
+import { recorderService } from './recorderService';
+import { analysisCache } from './analysisCache';
+import { preprocessService } from './preprocessService';
+import { ProgressJob } from './progressService';
+import { modelCatalog, ModelInfo } from './modelCatalog';
+import { composePrompt } from './promptComposer';
+import { extractUsage, UsageContext, usageService } from './usageService';
+import { CancelledError, InputError, ResponseError, SafetyDetails, SafetyError, normalizeError, throwIfAborted } from './errors';
+import { keyVault } from './keyVault';
 
-// Factory to always get the freshest instance
-const getAiClient = () => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-        throw new Error("NEURAL_LINK_NULL: Authentication key missing. Initialize via System Config.");
+// Factory to always get the freshest instance, so a rotated key applies to the next call
+const getAiClient = async () => new GoogleGenAI({ apiKey: await keyVault.getActiveKey('gemini') });
+
+// Token counting is free and authenticated, so it proves a key works without spending quota
+export const validateGeminiKey = async (apiKey: string): Promise<void> => {
+    try {
+        await new GoogleGenAI({ apiKey }).models.countTokens({ model: modelCatalog.getModelId('refine'), contents: 'ping' });
+    } catch (e) {
+        throw normalizeError(e);
+    }
+};
+
+// Every model call goes through here so sessions can be recorded and replayed offline,
+// live usage lands in the ledger, and every SDK failure leaves the service as a PixshopError
+const generateContent = async (params: GenerateContentParameters, usage: UsageContext, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+    try {
+        throwIfAborted(signal);
+        if (recorderService.getMode() === 'replay') return await recorderService.replay(params);
+        const response = await (await getAiClient()).models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } });
+        usageService.record(extractUsage(response, params.model), usage);
+        if (recorderService.getMode() === 'record') await recorderService.record(params, response);
+        return response;
+    } catch (e) {
+        throw normalizeError(e);
+    }
+};
+
+// Analysis output depends only on its inputs, so it is served from the content-addressed
+// cache unless bypassed. Only parseable text is stored; recorder sessions always hit the wire.
+const generateAnalysis = async <T>(params: GenerateContentParameters, usage: UsageContext, parse: (text: string) => T, signal?: AbortSignal, bypassCache?: boolean): Promise<T> => {
+    throwIfAborted(signal);
+    const key = recorderService.getMode() === 'off' ? await analysisCache.keyFor(params) : null;
+    if (key && !bypassCache) {
+        const cached = await analysisCache.get(key);
+        if (cached !== null) {
+            try {
+                return parse(cached);
+            } catch (e) {
+                // A bad entry would otherwise fail every retry the scheduler makes
+                await analysisCache.delete(key);
+            }
+        }
     }
-    return new GoogleGenAI({ apiKey });
+    const response = await generateContent(params, usage, signal);
+    const text = response.text || '';
+    const result = parse(text);
+    if (key && text) analysisCache.set(key, params.model, text);
+    return result;
 };
 
 export const PROTOCOLS = {
@@ -21,61 +72,81 @@ export const PROTOCOLS = {
     DESIGNER: `Role: Professional Urban Vector Designer. Output crisp, flat illustrations with bold silhouettes and isolated backgrounds.`,
     TYPOGRAPHER: `Role: Master Street Typographer. Render text as high-impact urban assets (stencil, wildstyle, chrome).`,
     IMAGE_TRANSFORMER: `Role: Stylistic Diffusion Core. Infuse the source subject with the target visual DNA.`,
-    STYLE_ROUTER: `Analyze visual DNA and route to: 'filter_panel', 'vector_art_panel', 'typographic_panel'. Output STRICT JSON.`,
+    STYLE_ROUTER: `Analyze visual DNA. Profile the palette (dominant hex colors, most prominent first), lighting, medium, composition, texture and era. Score every module for how well it can reproduce the style: 'filter_panel' (restyle a photo), 'light_panel' (relight and color grade), 'vector_art_panel' (flat illustration), 'typographic_panel' (lettering), 'flux' (generate a new image). Confidence is 0-1. Output STRICT JSON.`,
     PRESET_GENERATOR: `Analyze prompt and generate urban metadata. Output STRICT JSON.`
 };
 
-export interface ImageGenerationConfig {
-    aspectRatio?: string;
-    isChaos?: boolean;
-    systemInstructionOverride?: string;
-    negativePrompt?: string; 
-    denoisingInstruction?: string; 
-    setViewerInstruction?: (text: string | null) => void; // New prop for granular feedback
-    useGoogleSearch?: boolean; // New prop for grounding
-}
-
-// Unified response type for image generation
-interface ImageGenerationResult {
-    imageUrl: string;
-    groundingUrls?: { uri: string; title?: string }[];
-}
-
-const fileToPart = async (file: File | string, setViewerInstruction?: (text: string | null) => void): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+const fileToPart = async (file: File | string, progress?: ProgressJob, signal?: AbortSignal): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    throwIfAborted(signal);
     if (typeof file === 'string') {
         const parts = file.split(',');
         const mimeType = parts[0].match(/:(.*?);/)?.[1] || 'image/png';
         const data = parts[1];
         return { inlineData: { mimeType, data } };
     }
-    
+
+    // Uploads a rotated, downscaled, metadata-free copy; the caller's file stays full resolution
+    progress?.report('preparing', "NORMALIZING_SOURCE_PIXELS...");
+    const upload = await preprocessService.prepare(file, signal);
+
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
-        reader.readAsDataURL(file);
+        const onAbort = () => {
+            reader.abort();
+            reject(new CancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        reader.readAsDataURL(upload);
         reader.onload = () => {
-            if (setViewerInstruction) setViewerInstruction("UPLOADING_VOXEL_MAP...");
+            signal?.removeEventListener('abort', onAbort);
+            progress?.report('uploading', "UPLOADING_VOXEL_MAP...");
             const result = reader.result as string;
             const base64Data = result.split(',')[1];
-            resolve({ inlineData: { mimeType: file.type, data: base64Data } });
+            resolve({ inlineData: { mimeType: upload.type || file.type, data: base64Data } });
         };
-        reader.onerror = () => reject(new Error("IO_FAULT: Image sequence corrupted during read."));
+        reader.onerror = () => reject(new InputError('IO_FAULT', "Image sequence corrupted during read.", { cause: reader.error }));
     });
 };
 
-const handleApiResponse = (response: GenerateContentResponse, setViewerInstruction?: (text: string | null) => void): ImageGenerationResult => {
-    if (setViewerInstruction) setViewerInstruction("DECODING_NEURAL_RESPONSE...");
+// Options the model cannot honour are dropped rather than sent; the panels disable them up front
+const toImageConfig = (model: ModelInfo, config?: ImageGenerationConfig) => {
+    const { aspectRatios, outputSizes } = model.capabilities;
+    const requested = config?.imageConfig?.aspectRatio;
+    const imageConfig: Record<string, string> = { aspectRatio: requested && aspectRatios.includes(requested) ? requested : '1:1' };
+    if (config?.imageConfig?.imageSize && outputSizes.includes(config.imageConfig.imageSize)) imageConfig.imageSize = config.imageConfig.imageSize;
+    return imageConfig;
+};
+
+// Finish reasons that mean a policy filter, rather than the model, ended the response
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const toSafetyDetails = (reason: string, stage: SafetyDetails['stage'], model: string, ratings: SafetyRating[] = []): SafetyDetails => ({
+    reason,
+    stage,
+    model,
+    ratings: ratings.map(r => ({ category: r.category || 'HARM_CATEGORY_UNSPECIFIED', probability: r.probability || 'HARM_PROBABILITY_UNSPECIFIED', blocked: !!r.blocked })),
+});
+
+const handleApiResponse = (response: GenerateContentResponse, model: string, progress?: ProgressJob): ImageGenerationResult => {
+    progress?.report('decoding', "DECODING_NEURAL_RESPONSE...");
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new SafetyError(`Prompt blocked by safety filter [${blockReason}].`, { details: toSafetyDetails(blockReason, 'prompt', model, response.promptFeedback?.safetyRatings) });
+    }
     const candidate = response.candidates?.[0];
-    if (!candidate) throw new Error("BUFFER_EMPTY: Neural response returned null content.");
-    if (candidate.finishReason === 'SAFETY') throw new Error("SYNTHESIS_ABORTED: Neural safety filter triggered. Content contains prohibited tokens.");
+    if (!candidate) throw new ResponseError('BUFFER_EMPTY', "Neural response returned null content.");
+    if (candidate.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+        throw new SafetyError(`Neural safety filter triggered [${candidate.finishReason}]. Attempt logged.`, { details: toSafetyDetails(candidate.finishReason, 'response', model, candidate.safetyRatings) });
+    }
 
     let imageUrl: string | undefined;
-    for (const part of candidate.content.parts) {
+    for (const part of candidate.content?.parts || []) {
         if (part.inlineData) {
             imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
             break;
         }
     }
-    if (!imageUrl) throw new Error("PARSING_FAULT: Synthesis succeeded but visual data stream was truncated.");
+    if (!imageUrl) throw new ResponseError('PARSING_FAULT', "Synthesis succeeded but visual data stream was truncated.");
 
     const groundingUrls: { uri: string; title?: string }[] = [];
     if (response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
@@ -89,142 +160,226 @@ const handleApiResponse = (response: GenerateContentResponse, setViewerInstructi
         }
     }
 
-    return { imageUrl, groundingUrls: groundingUrls.length > 0 ? groundingUrls : undefined };
+    return { imageUrl, groundingUrls: groundingUrls.length > 0 ? groundingUrls : undefined, usage: extractUsage(response, model) };
 };
 
-export const refineImagePrompt = async (prompt: string, useDeepThinking?: boolean, setViewerInstruction?: (text: string | null) => void): Promise<string> => {
-    try {
-        if (setViewerInstruction) setViewerInstruction("REFINING_PROMPT_GRAMMAR...");
-        const ai = getAiClient();
-        // Always use gemini-3-flash-preview for text reasoning (free tier compatible)
-        const model = 'gemini-3-flash-preview'; 
-        
-        const config: any = {};
-        if (useDeepThinking) { // useDeepThinking can still be used to enable deeper thinking for flash model
-            config.thinkingConfig = { thinkingBudget: 2048 };
-        }
-
-        const response = await ai.models.generateContent({
-            model,
-            contents: `Professionalize this urban synthesis prompt into a high-density AI generation directive: "${prompt}". Focus on lighting, texture, and composition terms.`,
-            config
-        });
-        return response.text || prompt;
-    } catch (e: any) {
-        if (e.message?.includes('403') || e.message?.includes('401')) throw new Error("AUTH_DENIED: Invalid Neural Link Key. Reset via Config.");
-        if (e.message?.includes('429')) throw new Error("BUFFER_OVERFLOW: API rate limit reached. Cool down.");
-        throw e;
-    } finally {
-        if (setViewerInstruction) setViewerInstruction(null);
+export const refineImagePrompt = async (prompt: string, useDeepThinking?: boolean, progress?: ProgressJob, signal?: AbortSignal): Promise<string> => {
+    const model = modelCatalog.getModel('refine');
+    progress?.setModel(model.id);
+    progress?.report('refining', "REFINING_PROMPT_GRAMMAR...");
+    
+    const config: any = {};
+    if (useDeepThinking && model.capabilities.thinking) {
+        config.thinkingConfig = { thinkingBudget: 2048 };
     }
+
+    const response = await generateContent({
+        model: model.id,
+        contents: `Professionalize this urban synthesis prompt into a high-density AI generation directive: "${prompt}". Focus on lighting, texture, and composition terms.`,
+        config
+    }, { operation: 'refine' }, signal);
+    return response.text || prompt;
 };
 
 export const generateFluxTextToImage = async (prompt: string, config?: ImageGenerationConfig): Promise<ImageGenerationResult> => {
-    if (config?.setViewerInstruction) config.setViewerInstruction("GENERATING_FLUX_FROM_TEXT...");
-    const ai = getAiClient();
-    // Always use gemini-2.5-flash-image for image generation (free tier compatible)
-    const model = 'gemini-2.5-flash-image';
+    const model = modelCatalog.getModel('generate');
+    config?.progress?.setModel(model.id);
+    config?.progress?.report('generating', "GENERATING_FLUX_FROM_TEXT...");
     const generationConfig: any = {
         systemInstruction: config?.systemInstructionOverride || PROTOCOLS.ARTIST,
-        imageConfig: { aspectRatio: (config?.aspectRatio || '1:1') as any }
+        imageConfig: toImageConfig(model, config)
     };
-    if (config?.useGoogleSearch) {
+    if (config?.useGoogleSearch && model.capabilities.searchGrounding) {
         generationConfig.tools = [{googleSearch: {}}];
     }
+    if (config?.seed !== undefined) {
+        generationConfig.seed = config.seed;
+    }
 
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [{ text: `${prompt}${config?.negativePrompt ? ` --avoid ${config.negativePrompt}` : ''}` }] },
+    const response = await generateContent({
+        model: model.id,
+        contents: { parts: [{ text: composePrompt(prompt, 'text_to_image', config) }] },
         config: generationConfig
-    });
-    return handleApiResponse(response, config?.setViewerInstruction);
+    }, { operation: 'text_to_image', panel: config?.panel }, config?.signal);
+    return handleApiResponse(response, model.id, config?.progress);
 };
 
 export const generateFluxImage = async (source: File | string, prompt: string, config?: ImageGenerationConfig): Promise<ImageGenerationResult> => {
-    if (config?.setViewerInstruction) config.setViewerInstruction("TRANSFORMING_VISUAL_FLUX...");
-    const ai = getAiClient();
-    // Always use gemini-2.5-flash-image for image generation (free tier compatible)
-    const model = 'gemini-2.5-flash-image';
-    const imagePart = await fileToPart(source, config?.setViewerInstruction);
+    const model = modelCatalog.getModel('edit');
+    config?.progress?.setModel(model.id);
+    config?.progress?.report('generating', "TRANSFORMING_VISUAL_FLUX...");
+    const imagePart = await fileToPart(source, config?.progress, config?.signal);
     const generationConfig: any = {
         systemInstruction: config?.systemInstructionOverride || PROTOCOLS.IMAGE_TRANSFORMER, 
-        imageConfig: { aspectRatio: (config?.aspectRatio || '1:1') as any }
+        imageConfig: toImageConfig(model, config)
     };
-    if (config?.useGoogleSearch) {
+    if (config?.useGoogleSearch && model.capabilities.searchGrounding) {
         generationConfig.tools = [{googleSearch: {}}];
     }
+    if (config?.seed !== undefined) {
+        generationConfig.seed = config.seed;
+    }
 
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [{ text: prompt }, imagePart] },
+    const response = await generateContent({
+        model: model.id,
+        contents: { parts: [{ text: composePrompt(prompt, 'image_to_image', config) }, imagePart] },
         config: generationConfig
-    });
-    return handleApiResponse(response, config?.setViewerInstruction);
+    }, { operation: 'image_to_image', panel: config?.panel }, config?.signal);
+    return handleApiResponse(response, model.id, config?.progress);
 };
 
 export const generateFilteredImage = async (source: File | string, prompt: string, config?: ImageGenerationConfig): Promise<ImageGenerationResult> => {
-    if (config?.setViewerInstruction) config.setViewerInstruction("APPLYING_NEURAL_FILTERS...");
-    const ai = getAiClient();
-    // Always use gemini-2.5-flash-image for image generation (free tier compatible)
-    const model = 'gemini-2.5-flash-image';
-    const imagePart = await fileToPart(source, config?.setViewerInstruction);
+    const model = modelCatalog.getModel('edit');
+    config?.progress?.setModel(model.id);
+    config?.progress?.report('generating', "APPLYING_NEURAL_FILTERS...");
+    const imagePart = await fileToPart(source, config?.progress, config?.signal);
     const generationConfig: any = {
         systemInstruction: config?.systemInstructionOverride || PROTOCOLS.EDITOR, 
-        imageConfig: { aspectRatio: (config?.aspectRatio || '1:1') as any }
+        imageConfig: toImageConfig(model, config)
     };
-    if (config?.useGoogleSearch) {
+    if (config?.useGoogleSearch && model.capabilities.searchGrounding) {
         generationConfig.tools = [{googleSearch: {}}];
     }
+    if (config?.seed !== undefined) {
+        generationConfig.seed = config.seed;
+    }
     
-    const response = await ai.models.generateContent({
-        model,
-        contents: { parts: [{ text: prompt }, imagePart] },
+    const response = await generateContent({
+        model: model.id,
+        contents: { parts: [{ text: composePrompt(prompt, 'edit', config) }, imagePart] },
         config: generationConfig
-    });
-    return handleApiResponse(response, config?.setViewerInstruction);
-};
-
-export interface RoutedStyle {
-    target_panel_id: 'filter_panel' | 'vector_art_panel' | 'typographic_panel';
-    preset_data: { name: string; description: string; prompt: string; };
-}
-
-export const extractStyleFromImage = async (imageFile: File | string, setViewerInstruction?: (text: string | null) => void): Promise<RoutedStyle> => {
-    if (setViewerInstruction) setViewerInstruction("SEQUENCING_VISUAL_DNA...");
-    const ai = getAiClient();
-    const imagePart = await fileToPart(imageFile, setViewerInstruction);
-    const response = await ai.models.generateContent({
-        // Always use gemini-3-flash-preview for text reasoning (free tier compatible)
-        model: 'gemini-3-flash-preview',
-        contents: { parts: [{ text: "Extract Visual DNA and route to target module." }, imagePart] },
-        config: {
-            systemInstruction: PROTOCOLS.STYLE_ROUTER,
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    target_panel_id: { type: Type.STRING, enum: ['filter_panel', 'vector_art_panel', 'typographic_panel'] },
-                    preset_data: {
+    }, { operation: 'edit', panel: config?.panel }, config?.signal);
+    return handleApiResponse(response, model.id, config?.progress);
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isStylePanel = (id: unknown): id is StylePanelId => STYLE_PANEL_IDS.includes(id as StylePanelId);
+
+const parseRoutedStyle = (text: string): RoutedStyle => {
+    try {
+        const raw = JSON.parse(text);
+        if (!raw.preset_data) throw new Error("Missing preset fields");
+        const suggestions: RouteSuggestion[] = (Array.isArray(raw.suggestions) ? raw.suggestions : [])
+            .filter((s: any) => isStylePanel(s?.panel))
+            .map((s: any) => ({ panel: s.panel, confidence: Math.max(0, Math.min(1, Number(s.confidence) || 0)), reason: s.reason }))
+            .sort((a: RouteSuggestion, b: RouteSuggestion) => b.confidence - a.confidence);
+        // Older single-route answers still parse; they just carry no ranking
+        const target = suggestions[0]?.panel || (isStylePanel(raw.target_panel_id) ? raw.target_panel_id : null);
+        if (!target) throw new Error("Missing routing fields");
+        const profile = raw.profile ? {
+            palette: (Array.isArray(raw.profile.palette) ? raw.profile.palette : []).filter((hex: unknown) => typeof hex === 'string' && HEX_COLOR.test(hex)).map((hex: string) => hex.toUpperCase()),
+            lighting: String(raw.profile.lighting || ''),
+            medium: String(raw.profile.medium || ''),
+            composition: String(raw.profile.composition || ''),
+            texture: String(raw.profile.texture || ''),
+            era: String(raw.profile.era || ''),
+        } : undefined;
+        return { target_panel_id: target, preset_data: raw.preset_data, profile, suggestions: suggestions.length > 0 ? suggestions : undefined };
+    } catch (e) {
+        throw new ResponseError('PARSING_FAULT', "Visual DNA sequence returned malformed JSON.", { cause: e });
+    }
+};
+
+// The cache peek and the scheduled call that follows a miss prepare the same file; the last one is kept
+let lastPrepared: { file: File; part: Awaited<ReturnType<typeof fileToPart>> } | null = null;
+
+const prepareAnalysisPart = async (file: File | string, progress?: ProgressJob, signal?: AbortSignal) => {
+    if (typeof file !== 'string' && lastPrepared?.file === file) return lastPrepared.part;
+    const part = await fileToPart(file, progress, signal);
+    if (typeof file !== 'string') lastPrepared = { file, part };
+    return part;
+};
+
+// Cached answer without going near the network; recording and replay always make the call
+const peekAnalysis = async <T>(params: () => Promise<GenerateContentParameters>, parse: (text: string) => T): Promise<T | null> => {
+    if (recorderService.getMode() !== 'off') return null;
+    const key = await analysisCache.keyFor(await params());
+    const cached = await analysisCache.get(key);
+    if (cached === null) return null;
+    try {
+        return parse(cached);
+    } catch (e) {
+        await analysisCache.delete(key);
+        return null; // An entry that no longer parses is as good as a miss
+    }
+};
+
+const styleParams = async (imageFile: File | string, progress?: ProgressJob, signal?: AbortSignal): Promise<GenerateContentParameters> => ({
+    model: modelCatalog.getModelId('analyze'),
+    contents: { parts: [{ text: "Extract Visual DNA, profile it and rank every target module." }, await prepareAnalysisPart(imageFile, progress, signal)] },
+    config: {
+        systemInstruction: PROTOCOLS.STYLE_ROUTER,
+        responseMimeType: "application/json",
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                preset_data: {
+                    type: Type.OBJECT,
+                    properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, prompt: { type: Type.STRING } },
+                    required: ['name', 'description', 'prompt']
+                },
+                profile: {
+                    type: Type.OBJECT,
+                    properties: {
+                        palette: { type: Type.ARRAY, items: { type: Type.STRING, description: "Hex color, e.g. #FF2D55" } },
+                        lighting: { type: Type.STRING },
+                        medium: { type: Type.STRING },
+                        composition: { type: Type.STRING },
+                        texture: { type: Type.STRING },
+                        era: { type: Type.STRING }
+                    },
+                    required: ['palette', 'lighting', 'medium', 'composition', 'texture', 'era']
+                },
+                suggestions: {
+                    type: Type.ARRAY,
+                    items: {
                         type: Type.OBJECT,
-                        properties: { name: { type: Type.STRING }, description: { type: Type.STRING }, prompt: { type: Type.STRING } },
-                        required: ['name', 'description', 'prompt']
+                        properties: {
+                            panel: { type: Type.STRING, enum: STYLE_PANEL_IDS },
+                            confidence: { type: Type.NUMBER },
+                            reason: { type: Type.STRING }
+                        },
+                        required: ['panel', 'confidence']
                     }
-                },
-                required: ['target_panel_id', 'preset_data']
-            }
+                }
+            },
+            required: ['preset_data', 'profile', 'suggestions']
         }
-    });
-    return JSON.parse(response.text || '{}');
+    }
+});
+
+const describeParams = async (imageFile: File | string, progress?: ProgressJob, signal?: AbortSignal): Promise<GenerateContentParameters> => ({
+    model: modelCatalog.getModelId('analyze'),
+    contents: { parts: [{ text: "Describe the core subject and aesthetic of this image for a synthesis prompt." }, await prepareAnalysisPart(imageFile, progress, signal)] },
+});
+
+export const extractStyleFromImage = async (imageFile: File | string, progress?: ProgressJob, signal?: AbortSignal, bypassCache?: boolean): Promise<RoutedStyle> => {
+    progress?.setModel(modelCatalog.getModelId('analyze'));
+    const params = await styleParams(imageFile, progress, signal);
+    progress?.report('analyzing', "SEQUENCING_VISUAL_DNA...");
+    return generateAnalysis(params, { operation: 'extract_style' }, parseRoutedStyle, signal, bypassCache);
 };
 
-export const describeImageForPrompt = async (imageFile: File | string, setViewerInstruction?: (text: string | null) => void): Promise<string> => {
-    if (setViewerInstruction) setViewerInstruction("ANALYZING_IMAGE_GEOMETRY...");
-    const ai = getAiClient();
-    const imagePart = await fileToPart(imageFile, setViewerInstruction);
-    const response = await ai.models.generateContent({
-        // Always use gemini-3-flash-preview for text reasoning (free tier compatible)
-        model: 'gemini-3-flash-preview',
-        contents: { parts: [{ text: "Describe the core subject and aesthetic of this image for a synthesis prompt." }, imagePart] },
-    });
-    return response.text || "";
-};
\ No newline at end of file
+export const describeImageForPrompt = async (imageFile: File | string, progress?: ProgressJob, signal?: AbortSignal, bypassCache?: boolean): Promise<string> => {
+    progress?.setModel(modelCatalog.getModelId('analyze'));
+    const params = await describeParams(imageFile, progress, signal);
+    progress?.report('analyzing', "ANALYZING_IMAGE_GEOMETRY...");
+    return generateAnalysis(params, { operation: 'describe' }, text => text, signal, bypassCache);
+};
+
+// Gemini adapter registered with the provider service as the default backend
+export const geminiProvider: ImageProvider & TextProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    metered: true,
+    validateKey: validateGeminiKey,
+    textToImage: generateFluxTextToImage,
+    imageToImage: generateFluxImage,
+    editImage: generateFilteredImage,
+    refinePrompt: refineImagePrompt,
+    describeImage: describeImageForPrompt,
+    extractStyle: extractStyleFromImage,
+    cachedDescription: (image, progress, signal) => peekAnalysis(() => describeParams(image, progress, signal), text => text),
+    cachedStyle: (image, progress, signal) => peekAnalysis(() => styleParams(image, progress, signal), parseRoutedStyle),
+};
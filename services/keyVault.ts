@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { saveApiKey, loadApiKeys, deleteApiKey } from './persistence';
+import { AuthError } from './errors';
+import { sealSecret, openSecret, SealedSecret } from '../utils/crypto';
+
+interface StoredKey {
+    id: string;
+    provider: string;
+    name: string;
+    hint: string;             // Last characters, for telling keys apart in the UI
+    createdAt: number;
+    updatedAt: number;
+    secret?: string;          // Plain keys
+    sealed?: SealedSecret;    // Passphrase-encrypted keys
+}
+
+export interface KeyInfo {
+    id: string;
+    provider: string;
+    name: string;
+    hint: string;
+    createdAt: number;
+    updatedAt: number;
+    encrypted: boolean;
+    unlocked: boolean;
+    active: boolean;
+}
+
+export interface KeyDraft {
+    provider: string;
+    name: string;
+    secret: string;
+    passphrase?: string;      // Encrypts the key at rest when set
+}
+
+const ACTIVE_KEY = 'pixshop-active-keys';
+
+/**
+ * Named API keys per provider, kept in IndexedDB on this device only. Encrypted keys
+ * are decrypted once per session with their passphrase and held in memory after that.
+ */
+class KeyVaultService {
+    private active: Record<string, string> = {};
+    private unlocked = new Map<string, string>();
+    private listeners: (() => void)[] = [];
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(ACTIVE_KEY);
+            if (saved) this.active = JSON.parse(saved);
+        } catch (e) {}
+    }
+
+    public async list(provider?: string): Promise<KeyInfo[]> {
+        const keys = await loadApiKeys() as StoredKey[];
+        return keys
+            .filter(k => !provider || k.provider === provider)
+            .sort((a, b) => a.createdAt - b.createdAt)
+            .map(k => ({
+                id: k.id,
+                provider: k.provider,
+                name: k.name,
+                hint: k.hint,
+                createdAt: k.createdAt,
+                updatedAt: k.updatedAt,
+                encrypted: !!k.sealed,
+                unlocked: !k.sealed || this.unlocked.has(k.id),
+                active: this.active[k.provider] === k.id,
+            }));
+    }
+
+    /**
+     * Stores a new key, or replaces the secret of `replaceId` (rotation). The first key of a provider becomes active.
+     * Rotating an encrypted key needs a passphrase; the replacement is never silently stored in plaintext.
+     */
+    public async save(draft: KeyDraft, replaceId?: string): Promise<string> {
+        const existing = replaceId ? (await loadApiKeys() as StoredKey[]).find(k => k.id === replaceId) : undefined;
+        if (existing?.sealed && !draft.passphrase) {
+            throw new AuthError('VAULT_LOCKED', "Key is encrypted. Enter a passphrase to rotate it.");
+        }
+        const now = Date.now();
+        const secret = draft.secret.trim();
+        const record: StoredKey = {
+            id: existing?.id || `${draft.provider}_${now}_${Math.random().toString(36).slice(2, 8)}`,
+            provider: draft.provider,
+            name: draft.name.trim() || 'Default',
+            hint: secret.slice(-4),
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+        };
+        if (draft.passphrase) record.sealed = await sealSecret(secret, draft.passphrase);
+        else record.secret = secret;
+
+        await saveApiKey(record);
+        this.unlocked.set(record.id, secret);
+        if (!this.active[draft.provider]) this.setActiveId(draft.provider, record.id);
+        this.notify();
+        return record.id;
+    }
+
+    public async remove(id: string): Promise<void> {
+        await deleteApiKey(id);
+        this.unlocked.delete(id);
+        const provider = Object.keys(this.active).find(p => this.active[p] === id);
+        if (provider) {
+            // Fall back to the oldest remaining key so calls keep working after deleting the active one
+            const next = (await this.list(provider))[0];
+            this.setActiveId(provider, next?.id);
+        }
+        this.notify();
+    }
+
+    public setActive(provider: string, id: string) {
+        this.setActiveId(provider, id);
+        this.notify();
+    }
+
+    public async unlock(id: string, passphrase: string): Promise<void> {
+        const key = (await loadApiKeys() as StoredKey[]).find(k => k.id === id);
+        if (!key?.sealed) return;
+        try {
+            this.unlocked.set(id, await openSecret(key.sealed, passphrase));
+        } catch (e) {
+            throw new AuthError('VAULT_LOCKED', "Passphrase rejected. Key remains sealed.", { cause: e });
+        }
+        this.notify();
+    }
+
+    /** Forgets every decrypted key; encrypted keys need their passphrase again. */
+    public lock() {
+        this.unlocked.clear();
+        this.notify();
+    }
+
+    public async hasActiveKey(provider: string): Promise<boolean> {
+        return !!this.active[provider] && (await this.list(provider)).some(k => k.active);
+    }
+
+    public async getActiveKey(provider: string): Promise<string> {
+        const id = this.active[provider];
+        if (!id) throw new AuthError('NEURAL_LINK_NULL', "Authentication key missing. Add one under Key_Vault in System Config.");
+        const cached = this.unlocked.get(id);
+        if (cached) return cached;
+        const key = (await loadApiKeys() as StoredKey[]).find(k => k.id === id);
+        if (!key) throw new AuthError('NEURAL_LINK_NULL', "Active key was removed. Select another under Key_Vault.");
+        if (key.sealed) throw new AuthError('VAULT_LOCKED', `Key "${key.name}" is sealed. Unlock it under Key_Vault.`);
+        this.unlocked.set(id, key.secret!);
+        return key.secret!;
+    }
+
+    public subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private setActiveId(provider: string, id?: string) {
+        if (id) this.active = { ...this.active, [provider]: id };
+        else {
+            const { [provider]: _removed, ...rest } = this.active;
+            this.active = rest;
+        }
+        try {
+            localStorage.setItem(ACTIVE_KEY, JSON.stringify(this.active));
+        } catch (e) {}
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+}
+
+export const keyVault = new KeyVaultService();
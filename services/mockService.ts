@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ImageGenerationConfig, ImageGenerationResult, ImageOutputConfig, ImageProvider, RoutedStyle, TextProvider } from './providerService';
+import { composePrompt } from './promptComposer';
+import { ProgressJob } from './progressService';
+import { AuthError, CancelledError, InputError, PixshopError, RateLimitError, ResponseError, SafetyError } from './errors';
+
+// Offline backend: every result is rendered locally and depends only on its inputs,
+// so panels, history and error banners can be exercised without a key or network.
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_MODEL = 'mock'; // Latency key for progress ETAs
+const OUTPUT_SIZES: Record<string, number> = { '1K': 1024, '2K': 2048 };
+
+// Include one of these tokens in a prompt to make the mock fail the way the live API does
+const MOCK_FAULTS: Record<string, () => PixshopError> = {
+    '#safety': () => new SafetyError("Neural safety filter triggered [IMAGE_SAFETY]. Attempt logged.", {
+        details: {
+            reason: 'IMAGE_SAFETY',
+            stage: 'response',
+            model: MOCK_MODEL,
+            ratings: [
+                { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'MEDIUM', blocked: true },
+                { category: 'HARM_CATEGORY_HARASSMENT', probability: 'NEGLIGIBLE', blocked: false },
+                { category: 'HARM_CATEGORY_HATE_SPEECH', probability: 'NEGLIGIBLE', blocked: false },
+                { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', probability: 'LOW', blocked: false },
+            ],
+        },
+    }),
+    '#ratelimit': () => new RateLimitError("API rate limit reached. Cool down.", { retryAfterMs: 2000 }),
+    '#auth': () => new AuthError('AUTH_DENIED', "Invalid Neural Link Key. Reset via Config.", { status: 403 }),
+    '#empty': () => new ResponseError('PARSING_FAULT', "Synthesis succeeded but visual data stream was truncated."),
+};
+
+const PALETTE = ['#FF2D55', '#A855F7', '#00F0FF', '#00FF9D', '#FF00FF', '#FCF721', '#FF5C00'];
+
+// FNV-1a, so the same prompt always yields the same image
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Mulberry32 PRNG seeded from the prompt hash
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const simulateLatency = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const checkFaults = (prompt: string) => {
+    for (const [token, createError] of Object.entries(MOCK_FAULTS)) {
+        if (prompt.includes(token)) throw createError();
+    }
+};
+
+const loadImage = (source: File | string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+        const img = new Image();
+        img.onload = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => reject(new InputError('IO_FAULT', "Image sequence corrupted during read."));
+        img.src = url;
+    });
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new InputError('IO_FAULT', "2D render context unavailable.");
+    return { canvas, ctx };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+            if (lines.length === maxLines) break;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line && lines.length < maxLines) lines.push(line);
+    return lines;
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, width: number, height: number, mode: string, prompt: string, accent: string) => {
+    const fontSize = Math.max(12, Math.round(width / 48));
+    ctx.font = `bold ${fontSize}px monospace`;
+    const lines = wrapText(ctx, prompt, width - fontSize * 2, 4);
+    const bandHeight = fontSize * (lines.length + 2.5);
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(0, height - bandHeight, width, bandHeight);
+    ctx.fillStyle = accent;
+    ctx.fillRect(0, height - bandHeight, width, Math.max(2, fontSize / 6));
+
+    ctx.fillText(`MOCK::${mode}`, fontSize, height - bandHeight + fontSize * 1.5);
+    ctx.fillStyle = '#FFFFFF';
+    lines.forEach((l, i) => ctx.fillText(l, fontSize, height - bandHeight + fontSize * (i + 2.7)));
+};
+
+const getDimensions = (imageConfig?: ImageOutputConfig) => {
+    const size = OUTPUT_SIZES[imageConfig?.imageSize || '1K'];
+    const [w, h] = (imageConfig?.aspectRatio || '1:1').split(':').map(Number);
+    if (!w || !h) return { width: size, height: size };
+    return w >= h
+        ? { width: size, height: Math.round(size * h / w) }
+        : { width: Math.round(size * w / h), height: size };
+};
+
+const seedKey = (prompt: string, seed?: number) => seed === undefined ? prompt : `${prompt}#${seed}`;
+
+const renderProcedural = (prompt: string, config?: ImageGenerationConfig): string => {
+    const random = createRandom(hashString(seedKey(prompt, config?.seed)));
+    const { width, height } = getDimensions(config?.imageConfig);
+    const { canvas, ctx } = createCanvas(width, height);
+    const accent = PALETTE[Math.floor(random() * PALETTE.length)];
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, '#050505');
+    gradient.addColorStop(1, PALETTE[Math.floor(random() * PALETTE.length)] + '55');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    for (let i = 0; i < 24; i++) {
+        ctx.fillStyle = PALETTE[Math.floor(random() * PALETTE.length)] + '88';
+        ctx.beginPath();
+        ctx.arc(random() * width, random() * height, random() * width / 5, 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    drawLabel(ctx, width, height, 'TEXT_TO_IMAGE', prompt, accent);
+    return canvas.toDataURL('image/png');
+};
+
+const renderOverlay = async (source: File | string, mode: string, prompt: string, config?: ImageGenerationConfig): Promise<string> => {
+    const img = await loadImage(source);
+    const { width, height } = config?.imageConfig?.aspectRatio
+        ? getDimensions(config.imageConfig)
+        : { width: img.naturalWidth, height: img.naturalHeight };
+    const { canvas, ctx } = createCanvas(width, height);
+    const accent = PALETTE[hashString(seedKey(prompt, config?.seed)) % PALETTE.length];
+
+    // Cover-crop the source into the requested frame, like the live model reframes it
+    const scale = Math.max(width / img.naturalWidth, height / img.naturalHeight);
+    ctx.drawImage(img, (width - img.naturalWidth * scale) / 2, (height - img.naturalHeight * scale) / 2, img.naturalWidth * scale, img.naturalHeight * scale);
+    ctx.fillStyle = accent + '22';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    drawLabel(ctx, canvas.width, canvas.height, mode, prompt, accent);
+    return canvas.toDataURL('image/png');
+};
+
+const sourceKey = (source: File | string) => typeof source === 'string'
+    ? `${source.length}:${source.slice(-64)}`
+    : `${source.name}:${source.size}:${source.lastModified}`;
+
+const textToImage = async (prompt: string, config?: ImageGenerationConfig): Promise<ImageGenerationResult> => {
+    config?.progress?.setModel(MOCK_MODEL);
+    config?.progress?.report('generating', "MOCK_SYNTHESIS...");
+    await simulateLatency(config?.signal);
+    checkFaults(prompt);
+    return { imageUrl: renderProcedural(composePrompt(prompt, 'text_to_image', config), config) };
+};
+
+const imageToImage = async (source: File | string, prompt: string, config?: ImageGenerationConfig): Promise<ImageGenerationResult> => {
+    config?.progress?.setModel(MOCK_MODEL);
+    config?.progress?.report('generating', "MOCK_TRANSFORM...");
+    await simulateLatency(config?.signal);
+    checkFaults(prompt);
+    return { imageUrl: await renderOverlay(source, 'IMAGE_TO_IMAGE', composePrompt(prompt, 'image_to_image', config), config) };
+};
+
+const editImage = async (source: File | string, prompt: string, config?: ImageGenerationConfig): Promise<ImageGenerationResult> => {
+    config?.progress?.setModel(MOCK_MODEL);
+    config?.progress?.report('generating', "MOCK_EDIT...");
+    await simulateLatency(config?.signal);
+    checkFaults(prompt);
+    return { imageUrl: await renderOverlay(source, 'EDIT', composePrompt(prompt, 'edit', config), config) };
+};
+
+const refinePrompt = async (prompt: string, useDeepThinking?: boolean, _progress?: ProgressJob, signal?: AbortSignal): Promise<string> => {
+    await simulateLatency(signal);
+    checkFaults(prompt);
+    return `${prompt}, ${useDeepThinking ? 'meticulously composed, ' : ''}high contrast lighting, gritty texture, cinematic framing`;
+};
+
+const describeImage = async (image: File | string, _progress?: ProgressJob, signal?: AbortSignal): Promise<string> => {
+    await simulateLatency(signal);
+    return `mock subject ${(hashString(sourceKey(image)) % 10000).toString().padStart(4, '0')}, urban aesthetic`;
+};
+
+const MOCK_STYLES: RoutedStyle[] = [
+    {
+        target_panel_id: 'filter_panel',
+        preset_data: { name: 'Mock Neon Grit', description: 'Canned filter DNA from the offline provider.', prompt: 'Neon-soaked gritty street grade, heavy grain, teal shadows.' },
+        profile: { palette: ['#00F0FF', '#FF2D55', '#0B0F1A'], lighting: 'Wet neon signage, hard rim light', medium: 'Night photography', composition: 'Low-angle street perspective', texture: 'Heavy film grain', era: 'Late 1980s' },
+        suggestions: [{ panel: 'filter_panel', confidence: 0.82 }, { panel: 'light_panel', confidence: 0.64 }, { panel: 'flux', confidence: 0.41 }, { panel: 'vector_art_panel', confidence: 0.12 }, { panel: 'typographic_panel', confidence: 0.05 }],
+    },
+    {
+        target_panel_id: 'vector_art_panel',
+        preset_data: { name: 'Mock Flat Stencil', description: 'Canned vector DNA from the offline provider.', prompt: 'Flat two-tone stencil vector, bold silhouettes, isolated background.' },
+        profile: { palette: ['#FCF721', '#111111'], lighting: 'Flat, shadowless', medium: 'Spray stencil', composition: 'Centered silhouette', texture: 'Clean edges, slight overspray', era: 'Contemporary' },
+        suggestions: [{ panel: 'vector_art_panel', confidence: 0.9 }, { panel: 'flux', confidence: 0.38 }, { panel: 'typographic_panel', confidence: 0.22 }, { panel: 'filter_panel', confidence: 0.18 }, { panel: 'light_panel', confidence: 0.04 }],
+    },
+    {
+        target_panel_id: 'typographic_panel',
+        preset_data: { name: 'Mock Chrome Tag', description: 'Canned type DNA from the offline provider.', prompt: 'Chrome wildstyle lettering with heavy drips and hard outline.' },
+        profile: { palette: ['#C0C7D0', '#A855F7', '#FF00FF'], lighting: 'Specular chrome highlights', medium: 'Aerosol lettering', composition: 'Wide horizontal piece', texture: 'Paint drips over brick', era: '1990s hip-hop' },
+        suggestions: [{ panel: 'typographic_panel', confidence: 0.87 }, { panel: 'vector_art_panel', confidence: 0.35 }, { panel: 'flux', confidence: 0.3 }, { panel: 'filter_panel', confidence: 0.15 }, { panel: 'light_panel', confidence: 0.08 }],
+    },
+];
+
+const extractStyle = async (image: File | string, _progress?: ProgressJob, signal?: AbortSignal): Promise<RoutedStyle> => {
+    await simulateLatency(signal);
+    return MOCK_STYLES[hashString(sourceKey(image)) % MOCK_STYLES.length];
+};
+
+export const mockProvider: ImageProvider & TextProvider = {
+    id: 'mock',
+    label: 'Offline Mock',
+    textToImage,
+    imageToImage,
+    editImage,
+    refinePrompt,
+    describeImage,
+    extractStyle,
+};
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OutputSize, SUPPORTED_ASPECT_RATIOS } from '../utils/aspectRatio';
+
+// What each call site needs from a model
+export type ModelTask = 'generate' | 'edit' | 'refine' | 'analyze';
+
+export const MODEL_TASKS: { id: ModelTask; label: string }[] = [
+    { id: 'generate', label: 'Text_To_Image' },
+    { id: 'edit', label: 'Image_Edit' },
+    { id: 'refine', label: 'Prompt_Refine' },
+    { id: 'analyze', label: 'Image_Analysis' },
+];
+
+export interface ModelCapabilities {
+    imageInput: boolean;
+    imageOutput: boolean;
+    maxReferenceImages: number;          // Source images accepted per request
+    aspectRatios: readonly string[];     // Empty for models that do not render images
+    outputSizes: readonly OutputSize[];  // Sizes that can be requested explicitly; empty means fixed ~1K
+    thinking: boolean;
+    searchGrounding: boolean;
+}
+
+export interface ModelInfo {
+    id: string;
+    label: string;
+    capabilities: ModelCapabilities;
+}
+
+export const MODEL_CATALOG: ModelInfo[] = [
+    {
+        id: 'gemini-2.5-flash-image',
+        label: 'Flash Image 2.5',
+        capabilities: { imageInput: true, imageOutput: true, maxReferenceImages: 3, aspectRatios: SUPPORTED_ASPECT_RATIOS, outputSizes: [], thinking: false, searchGrounding: false },
+    },
+    {
+        id: 'gemini-3-pro-image-preview',
+        label: 'Pro Image 3',
+        capabilities: { imageInput: true, imageOutput: true, maxReferenceImages: 14, aspectRatios: SUPPORTED_ASPECT_RATIOS, outputSizes: ['1K', '2K'], thinking: true, searchGrounding: true },
+    },
+    {
+        id: 'gemini-3-flash-preview',
+        label: 'Flash 3',
+        capabilities: { imageInput: true, imageOutput: false, maxReferenceImages: 3600, aspectRatios: [], outputSizes: [], thinking: true, searchGrounding: true },
+    },
+    {
+        id: 'gemini-2.5-flash',
+        label: 'Flash 2.5',
+        capabilities: { imageInput: true, imageOutput: false, maxReferenceImages: 3000, aspectRatios: [], outputSizes: [], thinking: true, searchGrounding: true },
+    },
+];
+
+// Free-tier compatible defaults, matching what the app shipped with
+export const DEFAULT_TASK_MODELS: Record<ModelTask, string> = {
+    generate: 'gemini-2.5-flash-image',
+    edit: 'gemini-2.5-flash-image',
+    refine: 'gemini-3-flash-preview',
+    analyze: 'gemini-3-flash-preview',
+};
+
+const CHOICES_KEY = 'pixshop-model-choices';
+
+const canServe = (model: ModelInfo, task: ModelTask): boolean => {
+    const c = model.capabilities;
+    switch (task) {
+        case 'generate': return c.imageOutput;
+        case 'edit': return c.imageOutput && c.imageInput && c.maxReferenceImages > 0;
+        case 'refine': return !c.imageOutput;
+        case 'analyze': return !c.imageOutput && c.imageInput;
+    }
+};
+
+/**
+ * Registry of known models and their capabilities, plus the model chosen for each
+ * task. Providers read the choice at call time; panels use the capabilities to
+ * disable options the chosen model cannot honour.
+ */
+class ModelCatalogService {
+    private choices: Record<ModelTask, string> = { ...DEFAULT_TASK_MODELS };
+    private listeners: ((choices: Record<ModelTask, string>) => void)[] = [];
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(CHOICES_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as Partial<Record<ModelTask, string>>;
+                // Drop choices for models that left the catalog or no longer fit the task
+                for (const { id: task } of MODEL_TASKS) {
+                    const model = MODEL_CATALOG.find(m => m.id === parsed[task]);
+                    if (model && canServe(model, task)) this.choices[task] = model.id;
+                }
+            }
+        } catch (e) {}
+    }
+
+    public modelsFor(task: ModelTask): ModelInfo[] {
+        return MODEL_CATALOG.filter(m => canServe(m, task));
+    }
+
+    public getModelId(task: ModelTask): string {
+        return this.choices[task];
+    }
+
+    public getModel(task: ModelTask): ModelInfo {
+        return MODEL_CATALOG.find(m => m.id === this.choices[task]) || MODEL_CATALOG.find(m => m.id === DEFAULT_TASK_MODELS[task])!;
+    }
+
+    public getChoices(): Record<ModelTask, string> {
+        return this.choices;
+    }
+
+    public setModel(task: ModelTask, modelId: string) {
+        const model = MODEL_CATALOG.find(m => m.id === modelId);
+        if (!model || !canServe(model, task)) return;
+        this.choices = { ...this.choices, [task]: modelId };
+        try {
+            localStorage.setItem(CHOICES_KEY, JSON.stringify(this.choices));
+        } catch (e) {}
+        this.listeners.forEach(l => l(this.choices));
+    }
+
+    public subscribe(listener: (choices: Record<ModelTask, string>) => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+}
+
+export const modelCatalog = new ModelCatalogService();
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CancelledError, InputError, throwIfAborted } from './errors';
+import { medianCut, PaletteSwatch } from '../utils/palette';
+import type { PaletteJob, PaletteReply } from './paletteWorker';
+
+export const SWATCH_COUNT_CHOICES = [5, 8, 12];
+
+const LOCK_KEY = 'pixshop-color-lock';
+const SAMPLE_EDGE = 160; // Quantizing more pixels than this changes the palette little and costs a lot
+
+/**
+ * On-device palette extraction plus the color lock: swatches the operator picked as
+ * hard constraints for the next generations. Extraction runs in a worker and falls
+ * back to the main thread with the same algorithm, so results never depend on which
+ * path ran.
+ */
+class PaletteService {
+    private locked: string[] = [];
+    private listeners: ((locked: string[]) => void)[] = [];
+    private worker: Worker | null = null;
+    private workerFailed = false;
+    private nextJobId = 0;
+    private pending = new Map<number, { resolve: (swatches: PaletteSwatch[]) => void; reject: (error: Error) => void }>();
+    private results = new WeakMap<Blob, Map<number, Promise<PaletteSwatch[]>>>();
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(LOCK_KEY);
+            if (saved) this.locked = JSON.parse(saved);
+        } catch (e) {}
+    }
+
+    /** Dominant colors of `image`, most common first. Memoized per image and count. */
+    public extract(image: Blob, count: number, signal?: AbortSignal): Promise<PaletteSwatch[]> {
+        throwIfAborted(signal);
+        let byCount = this.results.get(image);
+        if (!byCount) this.results.set(image, byCount = new Map());
+        let result = byCount.get(count);
+        if (!result) {
+            result = this.run(image, count);
+            byCount.set(count, result);
+            result.catch(() => byCount!.delete(count));
+        }
+        if (!signal) return result;
+        return new Promise((resolve, reject) => {
+            const onAbort = () => reject(new CancelledError());
+            signal.addEventListener('abort', onAbort, { once: true });
+            result!.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+
+    public getLocked(): string[] {
+        return this.locked;
+    }
+
+    public toggleLocked(hex: string) {
+        this.setLocked(this.locked.includes(hex) ? this.locked.filter(h => h !== hex) : [...this.locked, hex]);
+    }
+
+    public setLocked(hexes: string[]) {
+        this.locked = hexes;
+        try {
+            localStorage.setItem(LOCK_KEY, JSON.stringify(this.locked));
+        } catch (e) {}
+        this.listeners.forEach(l => l(this.locked));
+    }
+
+    public subscribe(listener: (locked: string[]) => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private async run(image: Blob, count: number): Promise<PaletteSwatch[]> {
+        const worker = this.getWorker();
+        if (!worker) return this.runOnMainThread(image, count);
+
+        const id = this.nextJobId++;
+        const job: PaletteJob = { id, image, count, sampleEdge: SAMPLE_EDGE };
+        try {
+            return await new Promise<PaletteSwatch[]>((resolve, reject) => {
+                this.pending.set(id, { resolve, reject });
+                worker.postMessage(job);
+            });
+        } catch (e) {
+            throw new InputError('IO_FAULT', "Palette scan failed. Image could not be decoded.", { cause: e });
+        }
+    }
+
+    private async runOnMainThread(image: Blob, count: number): Promise<PaletteSwatch[]> {
+        try {
+            const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+            const scale = Math.min(1, SAMPLE_EDGE / Math.max(bitmap.width, bitmap.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+            canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error("2D context unavailable");
+            ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+            bitmap.close();
+            return medianCut(ctx.getImageData(0, 0, canvas.width, canvas.height).data, count);
+        } catch (e) {
+            throw new InputError('IO_FAULT', "Palette scan failed. Image could not be decoded.", { cause: e });
+        }
+    }
+
+    private getWorker(): Worker | null {
+        if (this.worker || this.workerFailed) return this.worker;
+        try {
+            if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') throw new Error("OffscreenCanvas workers unsupported");
+            const worker = new Worker(new URL('./paletteWorker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<PaletteReply>) => {
+                const reply = event.data;
+                const job = this.pending.get(reply.id);
+                if (!job) return;
+                this.pending.delete(reply.id);
+                if ('error' in reply) job.reject(new Error(reply.error));
+                else job.resolve(reply.swatches);
+            };
+            worker.onerror = (event) => {
+                console.warn("Palette: worker crashed, extracting on the main thread", event.message);
+                this.pending.forEach(job => job.reject(new Error(event.message || "Worker crashed")));
+                this.pending.clear();
+                worker.terminate();
+                this.worker = null;
+                this.workerFailed = true;
+            };
+            this.worker = worker;
+        } catch (e) {
+            console.warn("Palette: worker unavailable", e);
+            this.workerFailed = true;
+        }
+        return this.worker;
+    }
+}
+
+export const paletteService = new PaletteService();
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { medianCut, PaletteSwatch } from '../utils/palette';
+
+// Runs off the main thread: decode, shrink to a small sample and quantize.
+
+export interface PaletteJob {
+    id: number;
+    image: Blob;
+    count: number;
+    sampleEdge: number;
+}
+
+export type PaletteReply =
+    | { id: number; swatches: PaletteSwatch[] }
+    | { id: number; error: string };
+
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<PaletteJob>) => void) | null;
+    postMessage: (message: PaletteReply) => void;
+};
+
+scope.onmessage = async (event) => {
+    const { id, image, count, sampleEdge } = event.data;
+    try {
+        const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+        const scale = Math.min(1, sampleEdge / Math.max(bitmap.width, bitmap.height));
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("2D context unavailable");
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+
+        scope.postMessage({ id, swatches: medianCut(ctx.getImageData(0, 0, width, height).data, count) });
+    } catch (e) {
+        scope.postMessage({ id, error: e instanceof Error ? e.message : String(e) });
+    }
+};
@@ -5,11 +5,29 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-const DB_NAME = 'PixshopDB';
-const DB_VERSION = 3; // Bumped to 3 to force schema validation and recovery
-const STORE_NAME = 'history';
-const PRESETS_STORE = 'style_presets';
-const CONFIG_STORE = 'app_config'; // New store for application-wide configs like custom drone audio
+import { DB_NAME, DB_VERSION, STORES, PRESET_BUNDLE_ID, VALIDATED_STORES, runMigrations, validateRecord } from './dbSchema';
+import { sha256Hex } from '../utils/hash';
+import { opfsWrite, opfsRead, opfsDelete, opfsClear, opfsList } from '../utils/opfs';
+
+const STORE_NAME = STORES.history;
+const PRESETS_STORE = STORES.presets;
+const CONFIG_STORE = STORES.config;
+const RECORDINGS_STORE = STORES.recordings;
+const USAGE_STORE = STORES.usage;
+const ANALYSIS_CACHE_STORE = STORES.analysisCache;
+const KEYS_STORE = STORES.keys;
+const PROJECTS_STORE = STORES.projects;
+const QUARANTINE_STORE = STORES.quarantine;
+const BLOBS_STORE = STORES.blobs;
+
+// Separate database, so a failed upgrade of the main one cannot take the backup with it
+const BACKUP_DB_NAME = 'PixshopDB-backup';
+const BACKUP_STORE = 'backups';
+// Long enough to notice a bad migration; after that the copy only costs quota
+const BACKUP_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Key of the single session record written before projects existed
+export const LEGACY_SESSION_ID = 'current';
 
 export const dataUrlToBlob = (dataUrl: string): Blob => {
   try {
@@ -54,59 +72,148 @@ const base64ToFile = (dataurl: string, filename: string, mimeType: string, lastM
     return new File([blob], filename, {type: effectiveMimeType, lastModified: lastModified});
 }
 
-interface SerializedFile {
+export interface SerializedFile {
     name: string;
     type: string;
     lastModified: number;
-    data: Blob | string;
-    isUrl?: boolean;
+    hash?: string;           // Schema 3: bytes live in the blob store under this SHA-256
+    data?: Blob | string;    // Schema 1-2: bytes inline
+    isUrl?: boolean;         // `data` is a URL string (remote or data:) restored verbatim
+}
+
+// Any history entry: image content plus metadata fields that are stored as-is
+export type SessionItem = { content: File | string } & Record<string, any>;
+
+export interface SessionSnapshot<T extends SessionItem = SessionItem> {
+    history: T[];
+    currentId: string | null;
+    activeChildren: Record<string, string>; // Redo path per history node
+    activeTab: string;
+    blocked?: Record<string, any>[];        // Requests the safety filter stopped, stored verbatim
 }
 
-interface StoredAppState {
+export interface SavedSession<T extends SessionItem = SessionItem> extends SessionSnapshot<T> {
+    savedAt: number;
+}
+
+const SESSION_SCHEMA = 3;
+
+interface StoredSession {
     id: string;
-    history: SerializedFile[];
-    historyIndex: number;
+    schema: 2 | typeof SESSION_SCHEMA;
+    items: { meta: Record<string, any>; content: SerializedFile }[];
+    currentId: string | null;
+    activeChildren: Record<string, string>;
     activeTab: string;
-    hakiEnabled?: boolean;
-    hakiColor?: string;
-    hakiSize?: number;
-    hakiSpeed?: number;
-    isPlatinumTier?: boolean;
+    blocked?: Record<string, any>[];
     timestamp: number;
 }
 
-interface AppState {
-    history: (File | string)[];
+// Schema 1 kept only the files and a linear index; it was never written by the app
+interface LegacyStoredState {
+    id: string;
+    history: SerializedFile[];
     historyIndex: number;
     activeTab: string;
-    hakiEnabled?: boolean;
-    hakiColor?: string;
-    hakiSize?: number;
-    hakiSpeed?: number;
-    isPlatinumTier?: boolean;
+    timestamp: number;
+}
+
+// --- Pre-migration Backup ---
+
+export interface MigrationBackup {
+    id: 'latest';
+    fromVersion: number;
+    toVersion: number;
+    createdAt: number;
+    stores: Record<string, any[]>;
 }
 
-const openDB = (): Promise<IDBDatabase> => {
+const openBackupDB = (): Promise<IDBDatabase> => {
     return new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        const request = indexedDB.open(BACKUP_DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(BACKUP_STORE, { keyPath: 'id' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
 
-        request.onupgradeneeded = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
-            
-            // Store 1: Session History
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-            }
+// Opens whatever version is on disk without creating or upgrading anything; null when there is no database yet
+const openExistingDB = (): Promise<IDBDatabase | null> => {
+    return new Promise((resolve) => {
+        const request = indexedDB.open(DB_NAME);
+        request.onupgradeneeded = () => request.transaction?.abort();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+    });
+};
 
-            // Store 2: Style Presets
-            if (!db.objectStoreNames.contains(PRESETS_STORE)) {
-                db.createObjectStore(PRESETS_STORE, { keyPath: 'id' });
-            }
+const readAllStores = async (db: IDBDatabase, names: string[]): Promise<Record<string, any[]>> => {
+    if (names.length === 0) return {};
+    const tx = db.transaction(names, 'readonly');
+    const entries = await Promise.all(names.map(name => new Promise<[string, any[]]>((resolve, reject) => {
+        const request = tx.objectStore(name).getAll();
+        request.onsuccess = () => resolve([name, request.result]);
+        request.onerror = () => reject(request.error);
+    })));
+    return Object.fromEntries(entries);
+};
 
-            // Store 3: App Config (for custom drone audio)
-            if (!db.objectStoreNames.contains(CONFIG_STORE)) {
-                db.createObjectStore(CONFIG_STORE, { keyPath: 'id' });
-            }
+const deleteDatabase = (name: string): Promise<void> => {
+    return new Promise((resolve) => {
+        const req = indexedDB.deleteDatabase(name);
+        req.onsuccess = () => resolve();
+        req.onerror = () => {
+            console.error(`Failed to delete ${name}`, req.error);
+            resolve();
+        };
+        req.onblocked = () => {
+            console.warn(`Delete ${name} blocked`);
+            resolve();
+        };
+    });
+};
+
+// Copies every store of an outdated database aside before `openDB` upgrades it. API keys stay
+// out: a copy would outlive their deletion from the vault, and unsealed ones are plaintext.
+const backupBeforeUpgrade = async (): Promise<void> => {
+    const existing = await openExistingDB();
+    if (!existing) return;
+    const fromVersion = existing.version;
+    try {
+        if (fromVersion >= DB_VERSION) return;
+        const names = Array.from(existing.objectStoreNames).filter(name => name !== KEYS_STORE);
+        const stores = await readAllStores(existing, names);
+        const backup: MigrationBackup = { id: 'latest', fromVersion, toVersion: DB_VERSION, createdAt: Date.now(), stores };
+        const backupDb = await openBackupDB();
+        const tx = backupDb.transaction(BACKUP_STORE, 'readwrite');
+        tx.objectStore(BACKUP_STORE).put(backup);
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        backupDb.close();
+        console.log(`Persistence: backed up v${fromVersion} before upgrading to v${DB_VERSION}`);
+    } finally {
+        existing.close(); // An open connection would block the upgrade
+    }
+};
+
+let upgradeGuard: Promise<void> | null = null;
+
+const openDB = async (): Promise<IDBDatabase> => {
+    if (!upgradeGuard) {
+        // A failed backup must not lock users out of their data; the upgrade still runs
+        upgradeGuard = backupBeforeUpgrade()
+            .catch(e => console.warn("Pre-migration backup failed:", e))
+            .then(() => pruneMigrationBackup());
+    }
+    await upgradeGuard;
+
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = (event) => {
+            runMigrations(request.result, request.transaction!, event.oldVersion);
         };
 
         request.onsuccess = (event) => {
@@ -119,74 +226,56 @@ const openDB = (): Promise<IDBDatabase> => {
     });
 };
 
-export const saveState = async (
-    history: (File | string)[], 
-    historyIndex: number, 
-    activeTab: string, 
-    hakiEnabled: boolean,
-    hakiColor: string = '#DB24E3',
-    hakiSize: number = 1,
-    hakiSpeed: number = 1,
-    isPlatinumTier: boolean = true
-): Promise<void> => {
-    try {
-        const serializedHistory: SerializedFile[] = await Promise.all(history.map(async (item) => {
-            if (typeof item === 'string') {
-                if (item.startsWith('data:')) {
-                    const blob = dataUrlToBlob(item);
-                    return {
-                        name: `generated-${Date.now()}.png`,
-                        type: blob.type,
-                        lastModified: Date.now(),
-                        data: blob,
-                        isUrl: false,
-                    };
-                }
-                console.warn("Attempted to save a remote URL directly. Converting to placeholder image.");
-                const placeholderBlob = new Blob([], { type: 'image/png' });
-                 return {
-                    name: 'placeholder-remote.png',
-                    type: 'image/png',
-                    lastModified: Date.now(),
-                    data: placeholderBlob,
-                    isUrl: false,
-                };
-            }
-            return {
-                name: item.name,
-                type: item.type,
-                lastModified: item.lastModified,
-                data: item,
-                isUrl: false,
-            };
-        }));
+const serializeContent = async (content: File | string): Promise<SerializedFile> => {
+    if (typeof content === 'string') {
+        return { name: '', type: '', lastModified: 0, data: content, isUrl: true };
+    }
+    return { name: content.name, type: content.type, lastModified: content.lastModified, hash: await putBlob(content) };
+};
+
+const deserializeContent = async (f: SerializedFile): Promise<File | string> => {
+    if (f.isUrl && typeof f.data === 'string') return f.data;
+    if (typeof f.data === 'string') return base64ToFile(f.data, f.name, f.type, f.lastModified);
+    const bytes = f.hash ? await getBlob(f.hash) : f.data;
+    if (!bytes) console.warn(`Persistence: blob ${f.hash} is missing; restoring an empty image`);
+    // Copied, not wrapped: an OPFS-backed File turns unreadable once GC deletes its file, while the workspace still shows it
+    const file = new File([bytes ? await bytes.arrayBuffer() : ''], f.name, { type: f.type, lastModified: f.lastModified });
+    if (bytes && f.hash) blobHashes.set(file, f.hash); // The next save need not hash it again
+    return file;
+};
 
+/**
+ * Writes the whole session under a single key. Every metadata field of each history
+ * entry is stored verbatim; image bytes go to the blob store first and the record
+ * only references them by hash, so a save rewrites metadata, not images.
+ */
+export const saveSession = async <T extends SessionItem>(projectId: string, snapshot: SessionSnapshot<T>): Promise<void> => {
+    try {
+        // Blob writes are async; they must finish before the transaction opens or it auto-commits
+        const items = await Promise.all(snapshot.history.map(async ({ content, ...meta }) => ({ meta, content: await serializeContent(content) })));
         const db = await openDB();
         const tx = db.transaction(STORE_NAME, 'readwrite');
         const store = tx.objectStore(STORE_NAME);
-        
-        const state: StoredAppState = {
-            id: 'current',
-            history: serializedHistory,
-            historyIndex,
-            activeTab,
-            hakiEnabled,
-            hakiColor,
-            hakiSize,
-            hakiSpeed,
-            isPlatinumTier,
+
+        const state: StoredSession = {
+            id: projectId,
+            schema: SESSION_SCHEMA,
+            items,
+            currentId: snapshot.currentId,
+            activeChildren: snapshot.activeChildren,
+            activeTab: snapshot.activeTab,
+            blocked: snapshot.blocked || [],
             timestamp: Date.now()
         };
 
         const request = store.put(state);
         
+        // Only a committed transaction is a save; quota failures surface as an abort after the put succeeded
         return new Promise((resolve, reject) => {
-            request.onsuccess = () => resolve();
-            request.onerror = () => {
-                console.error("IndexedDB Put Error:", request.error);
-                reject(request.error);
-            };
+            request.onerror = () => console.error("IndexedDB Put Error:", request.error);
+            tx.oncomplete = () => resolve();
             tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
         });
     } catch (e) {
         console.error("Persistence save failed:", e instanceof Error ? e.message : e);
@@ -194,60 +283,109 @@ export const saveState = async (
     }
 };
 
-export const loadState = async (): Promise<AppState | null> => {
+export const loadSession = async <T extends SessionItem>(projectId: string): Promise<SavedSession<T> | null> => {
     try {
         const db = await openDB();
         const tx = db.transaction(STORE_NAME, 'readonly');
-        const store = tx.objectStore(STORE_NAME);
-        const request = store.get('current');
+        const request = tx.objectStore(STORE_NAME).get(projectId);
+        const result = await new Promise<StoredSession | LegacyStoredState | undefined>((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        if (!result) return null;
 
-        return new Promise((resolve, reject) => {
-            request.onsuccess = () => {
-                const result = request.result as StoredAppState | undefined;
-                if (result) {
-                    const history = result.history.map(f => {
-                        if (f.isUrl) {
-                            return new File([""], "placeholder-remote.png", { type: 'image/png', lastModified: Date.now() });
-                        }
-                        
-                        if (typeof f.data === 'string') {
-                            return base64ToFile(f.data, f.name, f.type, f.lastModified);
-                        }
-                        
-                        return new File([f.data as Blob], f.name, { 
-                            type: f.type, 
-                            lastModified: f.lastModified 
-                        });
-                    });
-
-                    resolve({
-                        history: history,
-                        historyIndex: result.historyIndex,
-                        activeTab: result.activeTab,
-                        hakiEnabled: result.hakiEnabled,
-                        hakiColor: result.hakiColor ?? '#DB24E3',
-                        hakiSize: result.hakiSize ?? 1,
-                        hakiSpeed: result.hakiSpeed ?? 1,
-                        isPlatinumTier: result.isPlatinumTier ?? true
-                    });
-                } else {
-                    resolve(null);
-                }
+        if ('schema' in result) {
+            return {
+                history: await Promise.all(result.items.map(async ({ meta, content }) => ({ ...meta, content: await deserializeContent(content) }) as T)),
+                currentId: result.currentId,
+                activeChildren: result.activeChildren || {},
+                activeTab: result.activeTab,
+                blocked: result.blocked || [],
+                savedAt: result.timestamp
             };
+        }
+
+        // Schema 1: rebuild a single chain from the bare files
+        const history = await Promise.all(result.history.map(async (f, i) => ({
+            id: `legacy_${i}`,
+            parentId: i > 0 ? `legacy_${i - 1}` : null,
+            type: i === 0 ? 'upload' : 'generation',
+            timestamp: f.lastModified || result.timestamp,
+            content: await deserializeContent(f)
+        }) as unknown as T));
+        const index = Math.min(Math.max(result.historyIndex, -1), history.length - 1);
+        return {
+            history,
+            currentId: index >= 0 ? `legacy_${index}` : null,
+            activeChildren: {},
+            activeTab: result.activeTab,
+            savedAt: result.timestamp
+        };
+    } catch (e) {
+        console.error("Persistence load failed:", e instanceof Error ? e.message : e);
+        return null;
+    }
+};
+
+/** A stored session with image bytes left where they are: metadata to plan on, references to fetch on demand. */
+export interface SessionOutline {
+    items: { meta: Record<string, any>; content: SerializedFile }[];
+    currentId: string | null;
+    activeChildren: Record<string, string>;
+    activeTab: string;
+    blocked: Record<string, any>[];
+    savedAt: number;
+}
+
+/** Reads a session without touching its images; null for missing sessions and schema-1 records. */
+export const loadSessionOutline = async (projectId: string): Promise<SessionOutline | null> => {
+    try {
+        const db = await openDB();
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(projectId);
+        const result = await new Promise<StoredSession | LegacyStoredState | undefined>((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
             request.onerror = () => reject(request.error);
         });
+        if (!result || !('schema' in result)) return null;
+        return { items: result.items, currentId: result.currentId, activeChildren: result.activeChildren || {}, activeTab: result.activeTab, blocked: result.blocked || [], savedAt: result.timestamp };
     } catch (e) {
-        console.error("Persistence load failed:", e instanceof Error ? e.message : e);
+        console.error("Persistence outline load failed:", e instanceof Error ? e.message : e);
         return null;
     }
 };
 
-export const clearState = async (): Promise<void> => {
+/** Writes an outline back; items keep whichever image reference they carry. */
+export const saveSessionOutline = async (projectId: string, outline: SessionOutline): Promise<void> => {
+    const db = await openDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const state: StoredSession = {
+        id: projectId,
+        schema: SESSION_SCHEMA,
+        items: outline.items,
+        currentId: outline.currentId,
+        activeChildren: outline.activeChildren,
+        activeTab: outline.activeTab,
+        blocked: outline.blocked,
+        timestamp: outline.savedAt
+    };
+    tx.objectStore(STORE_NAME).put(state);
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const loadStoredImage = (content: SerializedFile): Promise<File | string> => deserializeContent(content);
+
+export const storeImage = (content: File | string): Promise<SerializedFile> => serializeContent(content);
+
+export const clearState = async (projectId: string): Promise<void> => {
     try {
         const db = await openDB();
         const tx = db.transaction(STORE_NAME, 'readwrite');
         const store = tx.objectStore(STORE_NAME);
-        store.delete('current');
+        store.delete(projectId);
         return new Promise((resolve, reject) => {
             tx.oncomplete = () => resolve();
             tx.onerror = () => reject(tx.error);
@@ -259,18 +397,9 @@ export const clearState = async (): Promise<void> => {
 };
 
 export const nukeDatabase = async (): Promise<void> => {
-    return new Promise((resolve, reject) => {
-        const req = indexedDB.deleteDatabase(DB_NAME);
-        req.onsuccess = () => resolve();
-        req.onerror = () => {
-            console.error("Failed to delete DB", req.error);
-            resolve();
-        };
-        req.onblocked = () => {
-            console.warn("Delete DB blocked");
-            resolve();
-        };
-    });
+    await opfsClear(); // Blob files are unreachable once their index is gone
+    await deleteDatabase(BACKUP_DB_NAME); // "All local data" includes the pre-migration copy
+    await deleteDatabase(DB_NAME);
 };
 
 // --- ROBUST PRESET MANAGEMENT ---
@@ -282,7 +411,7 @@ export const saveUserPresets = async (presets: any[]): Promise<void> => {
         const store = tx.objectStore(PRESETS_STORE);
         
         // We now enforce the bundle format 'custom_presets' for performance and consistency
-        const entry = { id: 'custom_presets', data: presets, timestamp: Date.now() };
+        const entry = { id: PRESET_BUNDLE_ID, data: presets, timestamp: Date.now() };
         
         const request = store.put(entry);
         
@@ -297,60 +426,14 @@ export const saveUserPresets = async (presets: any[]): Promise<void> => {
     }
 };
 
+// Older layouts (one record per preset, localStorage) are folded into the bundle by migration v9
 export const loadUserPresets = async (): Promise<any[]> => {
     try {
         const db = await openDB();
-        const tx = db.transaction(PRESETS_STORE, 'readwrite'); // Readwrite to allow migration
-        const store = tx.objectStore(PRESETS_STORE);
-        
-        // Use getAll to find *any* saved data, regardless of key format (bundle vs individual)
-        const request = store.getAll();
-        
+        const tx = db.transaction(PRESETS_STORE, 'readonly');
+        const request = tx.objectStore(PRESETS_STORE).get(PRESET_BUNDLE_ID);
         return new Promise((resolve, reject) => {
-            request.onsuccess = () => {
-                const results = request.result;
-
-                // STRATEGY 1: Check for standard Bundle
-                const bundle = results.find(r => r.id === 'custom_presets');
-                if (bundle && bundle.data && Array.isArray(bundle.data)) {
-                    resolve(bundle.data);
-                    return;
-                }
-
-                // STRATEGY 2: Check for Un-bundled Individual Items (Migration from v1/v2 schema)
-                // Filter out the 'custom_presets' key if it exists but is invalid
-                const individualItems = results.filter(r => r.id !== 'custom_presets');
-                
-                if (individualItems.length > 0) {
-                    console.log("Persistence: Detected individual presets. Migrating to bundle format...");
-                    const validPresets = individualItems;
-                    
-                    // Save them as a bundle for future efficiency
-                    store.put({ id: 'custom_presets', data: validPresets, timestamp: Date.now() });
-                    
-                    // We can optionally delete individual items here to clean up, but keeping them is safer for now.
-                    // Returning migrated data.
-                    resolve(validPresets);
-                    return;
-                }
-
-                // STRATEGY 3: Last Resort - LocalStorage check (Legacy Migration)
-                const legacy = localStorage.getItem('user_style_presets');
-                if (legacy) {
-                    try {
-                        const parsed = JSON.parse(legacy);
-                        if (Array.isArray(parsed) && parsed.length > 0) {
-                            console.log("Persistence: Migrating presets from LocalStorage...");
-                            store.put({ id: 'custom_presets', data: parsed, timestamp: Date.now() });
-                            resolve(parsed);
-                            return;
-                        }
-                    } catch(e) {}
-                }
-
-                // No data found
-                resolve([]);
-            };
+            request.onsuccess = () => resolve(Array.isArray(request.result?.data) ? request.result.data : []);
             request.onerror = () => reject(request.error);
         });
     } catch (e) {
@@ -417,3 +500,718 @@ export const clearCustomDroneAudio = async (): Promise<void> => {
         console.error("Failed to clear custom drone audio:", e);
     }
 };
+
+// --- Recorded API Sessions ---
+
+export const saveRecordings = async (entries: { id: string }[]): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+        const store = tx.objectStore(RECORDINGS_STORE);
+        entries.forEach(entry => store.put(entry));
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to save recordings:", e);
+        throw e;
+    }
+};
+
+export const loadRecording = async (id: string): Promise<any | null> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(RECORDINGS_STORE, 'readonly');
+        const request = tx.objectStore(RECORDINGS_STORE).get(id);
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result || null);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to load recording:", e);
+        return null;
+    }
+};
+
+export const loadRecordings = async (): Promise<any[]> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(RECORDINGS_STORE, 'readonly');
+        const request = tx.objectStore(RECORDINGS_STORE).getAll();
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to load recordings:", e);
+        return [];
+    }
+};
+
+export const countRecordings = async (): Promise<number> => {
+    try {
+        const db = await openDB();
+        return await countRecords(db, RECORDINGS_STORE);
+    } catch (e) {
+        console.error("Failed to count recordings:", e);
+        return 0;
+    }
+};
+
+export const clearRecordings = async (): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+        tx.objectStore(RECORDINGS_STORE).clear();
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to clear recordings:", e);
+        throw e;
+    }
+};
+
+// --- Usage Ledger ---
+
+export const appendUsage = async (entry: { id: string; timestamp: number }): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(USAGE_STORE, 'readwrite');
+        tx.objectStore(USAGE_STORE).put(entry);
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to append usage:", e);
+        throw e;
+    }
+};
+
+export const loadUsage = async (since: number = 0): Promise<any[]> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(USAGE_STORE, 'readonly');
+        const request = tx.objectStore(USAGE_STORE).index('timestamp').getAll(IDBKeyRange.lowerBound(since));
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to load usage:", e);
+        return [];
+    }
+};
+
+export const pruneUsage = async (before: number): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(USAGE_STORE, 'readwrite');
+        const request = tx.objectStore(USAGE_STORE).index('timestamp').openCursor(IDBKeyRange.upperBound(before, true));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                cursor.delete();
+                cursor.continue();
+            }
+        };
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to prune usage:", e);
+    }
+};
+
+export const clearUsage = async (): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(USAGE_STORE, 'readwrite');
+        tx.objectStore(USAGE_STORE).clear();
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to clear usage:", e);
+        throw e;
+    }
+};
+
+// --- Analysis Cache ---
+
+export const getCachedAnalysis = async (id: string): Promise<any | null> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(ANALYSIS_CACHE_STORE, 'readonly');
+        const request = tx.objectStore(ANALYSIS_CACHE_STORE).get(id);
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result || null);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to read analysis cache:", e);
+        return null;
+    }
+};
+
+export const putCachedAnalysis = async (entry: { id: string; accessedAt: number }): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(ANALYSIS_CACHE_STORE, 'readwrite');
+        tx.objectStore(ANALYSIS_CACHE_STORE).put(entry);
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to write analysis cache:", e);
+        throw e;
+    }
+};
+
+// Oldest access first, so callers can evict from the front
+export const loadCachedAnalyses = async (): Promise<any[]> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(ANALYSIS_CACHE_STORE, 'readonly');
+        const request = tx.objectStore(ANALYSIS_CACHE_STORE).index('accessedAt').getAll();
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to load analysis cache:", e);
+        return [];
+    }
+};
+
+export const deleteCachedAnalyses = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    try {
+        const db = await openDB();
+        const tx = db.transaction(ANALYSIS_CACHE_STORE, 'readwrite');
+        const store = tx.objectStore(ANALYSIS_CACHE_STORE);
+        ids.forEach(id => store.delete(id));
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to evict analysis cache:", e);
+    }
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(ANALYSIS_CACHE_STORE, 'readwrite');
+        tx.objectStore(ANALYSIS_CACHE_STORE).clear();
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to clear analysis cache:", e);
+        throw e;
+    }
+};
+
+// --- Key Vault ---
+
+export const saveApiKey = async (record: { id: string }): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(KEYS_STORE, 'readwrite');
+        tx.objectStore(KEYS_STORE).put(record);
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to save API key:", e);
+        throw e;
+    }
+};
+
+export const loadApiKeys = async (): Promise<any[]> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(KEYS_STORE, 'readonly');
+        const request = tx.objectStore(KEYS_STORE).getAll();
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to load API keys:", e);
+        return [];
+    }
+};
+
+export const deleteApiKey = async (id: string): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(KEYS_STORE, 'readwrite');
+        tx.objectStore(KEYS_STORE).delete(id);
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to delete API key:", e);
+        throw e;
+    }
+};
+
+// --- Projects ---
+
+export const saveProject = async (record: { id: string }): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(PROJECTS_STORE, 'readwrite');
+        tx.objectStore(PROJECTS_STORE).put(record);
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to save project:", e);
+        throw e;
+    }
+};
+
+export const loadProjects = async (): Promise<any[]> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction(PROJECTS_STORE, 'readonly');
+        const request = tx.objectStore(PROJECTS_STORE).getAll();
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to load projects:", e);
+        return [];
+    }
+};
+
+// Removes the project and its session in one transaction so neither is left orphaned
+export const deleteProject = async (id: string): Promise<void> => {
+    try {
+        const db = await openDB();
+        const tx = db.transaction([PROJECTS_STORE, STORE_NAME], 'readwrite');
+        tx.objectStore(PROJECTS_STORE).delete(id);
+        tx.objectStore(STORE_NAME).delete(id);
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    } catch (e) {
+        console.error("Failed to delete project:", e);
+        throw e;
+    }
+};
+
+// --- Integrity & Repair ---
+
+export interface IntegrityIssue {
+    store: string;
+    key: string;
+    issue: string;
+}
+
+export interface IntegrityReport {
+    checkedAt: number;
+    records: number;
+    issues: IntegrityIssue[];
+    quarantined: number; // Records already in quarantine, including earlier repairs
+}
+
+interface InvalidRecord {
+    store: string;
+    key: IDBValidKey;
+    issue: string;
+    value: unknown;
+}
+
+const countRecords = (db: IDBDatabase, name: string): Promise<number> => {
+    if (!db.objectStoreNames.contains(name)) return Promise.resolve(0);
+    return new Promise((resolve, reject) => {
+        const request = db.transaction(name, 'readonly').objectStore(name).count();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Walks every validated store with a cursor, so records are addressed by their real key even when `id` is broken
+const scanStores = async (db: IDBDatabase): Promise<{ records: number; invalid: InvalidRecord[] }> => {
+    const names = VALIDATED_STORES.filter(name => db.objectStoreNames.contains(name));
+    const tx = db.transaction(names, 'readonly');
+    let records = 0;
+    const invalid: InvalidRecord[] = [];
+    await Promise.all(names.map(name => new Promise<void>((resolve, reject) => {
+        const request = tx.objectStore(name).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            records++;
+            const issue = validateRecord(name, cursor.value);
+            if (issue) invalid.push({ store: name, key: cursor.primaryKey, issue, value: cursor.value });
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    })));
+    return { records, invalid };
+};
+
+export const checkIntegrity = async (): Promise<IntegrityReport> => {
+    const db = await openDB();
+    const { records, invalid } = await scanStores(db);
+    return {
+        checkedAt: Date.now(),
+        records,
+        issues: invalid.map(({ store, key, issue }) => ({ store, key: String(key), issue })),
+        quarantined: await countRecords(db, QUARANTINE_STORE),
+    };
+};
+
+/**
+ * Moves every record that fails validation into the quarantine store, in one
+ * transaction. Healthy data is left alone; quarantined records stay exportable.
+ */
+export const repairDatabase = async (): Promise<IntegrityReport> => {
+    const db = await openDB();
+    const { records, invalid } = await scanStores(db);
+    if (invalid.length > 0) {
+        const stores = Array.from(new Set(invalid.map(r => r.store)));
+        const tx = db.transaction([QUARANTINE_STORE, ...stores], 'readwrite');
+        const quarantine = tx.objectStore(QUARANTINE_STORE);
+        const now = Date.now();
+        invalid.forEach(({ store, key, issue, value }) => {
+            quarantine.put({ id: `${store}:${String(key)}:${now}`, store, key, issue, record: value, quarantinedAt: now });
+            tx.objectStore(store).delete(key);
+        });
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        console.warn(`Persistence: quarantined ${invalid.length} corrupt record(s)`);
+    }
+    return {
+        checkedAt: Date.now(),
+        records,
+        issues: invalid.map(({ store, key, issue }) => ({ store, key: String(key), issue })),
+        quarantined: await countRecords(db, QUARANTINE_STORE),
+    };
+};
+
+// --- Backup Export ---
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+// JSON cannot carry binary data; blobs and byte arrays are tagged so an import can restore them
+const encodeForExport = async (value: any): Promise<any> => {
+    if (value instanceof Blob) {
+        return { $blob: { type: value.type, name: value instanceof File ? value.name : undefined, data: await blobToDataUrl(value) } };
+    }
+    if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+        const bytes = value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+        return { $bytes: btoa(Array.from(bytes, b => String.fromCharCode(b)).join('')) };
+    }
+    if (Array.isArray(value)) return Promise.all(value.map(encodeForExport));
+    if (value && typeof value === 'object') {
+        const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await encodeForExport(v)] as const));
+        return Object.fromEntries(entries);
+    }
+    return value;
+};
+
+export const loadMigrationBackupInfo = async (): Promise<Omit<MigrationBackup, 'stores'> | null> => {
+    try {
+        const db = await openBackupDB();
+        const request = db.transaction(BACKUP_STORE, 'readonly').objectStore(BACKUP_STORE).get('latest');
+        return await new Promise((resolve, reject) => {
+            request.onsuccess = () => {
+                db.close();
+                if (!request.result) return resolve(null);
+                const { stores, ...info } = request.result as MigrationBackup;
+                resolve(info);
+            };
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to read migration backup:", e);
+        return null;
+    }
+};
+
+export const deleteMigrationBackup = (): Promise<void> => deleteDatabase(BACKUP_DB_NAME);
+
+/**
+ * Drops the pre-migration copy once it has expired, and strips API keys from copies
+ * taken before they were excluded. Never creates the backup database just to look.
+ */
+const pruneMigrationBackup = async (): Promise<void> => {
+    try {
+        if (indexedDB.databases) {
+            const databases = await indexedDB.databases();
+            if (!databases.some(d => d.name === BACKUP_DB_NAME)) return;
+        }
+        const db = await openBackupDB();
+        const tx = db.transaction(BACKUP_STORE, 'readwrite');
+        const store = tx.objectStore(BACKUP_STORE);
+        const request = store.get('latest');
+        request.onsuccess = () => {
+            const backup = request.result as MigrationBackup | undefined;
+            if (!backup) return;
+            if (Date.now() - backup.createdAt > BACKUP_RETENTION_MS) {
+                store.delete('latest');
+            } else if (KEYS_STORE in backup.stores) {
+                const { [KEYS_STORE]: _keys, ...stores } = backup.stores;
+                store.put({ ...backup, stores });
+            }
+        };
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+        db.close();
+    } catch (e) {
+        console.warn("Failed to prune migration backup:", e);
+    }
+};
+
+/**
+ * The copy taken before the last schema upgrade as a JSON file, or null when no
+ * upgrade has happened on this device. Copies expire after 30 days and never hold API keys.
+ */
+export const exportMigrationBackup = async (): Promise<Blob | null> => {
+    const db = await openBackupDB();
+    const backup = await new Promise<MigrationBackup | undefined>((resolve, reject) => {
+        const request = db.transaction(BACKUP_STORE, 'readonly').objectStore(BACKUP_STORE).get('latest');
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    db.close();
+    if (!backup) return null;
+    const { [KEYS_STORE]: _keys, ...stores } = backup.stores; // Copies from before keys were excluded may still carry them
+    const payload = { format: 'pixshop-db-backup', ...backup, stores: await encodeForExport(stores) };
+    return new Blob([JSON.stringify(payload)], { type: 'application/json' });
+};
+
+// --- Content-addressed Blob Store ---
+
+export interface BlobRecord {
+    id: string;                 // SHA-256 of the bytes
+    size: number;
+    type: string;
+    createdAt: number;
+    backend: 'opfs' | 'idb';
+    data?: Blob;                // Only when stored in IndexedDB
+}
+
+export interface BlobGcResult {
+    removed: number;
+    freedBytes: number;
+}
+
+// Blobs touched this recently survive collection: the session that references them may still be on its way to disk
+const BLOB_GC_GRACE_MS = 10 * 60 * 1000;
+
+const blobHashes = new WeakMap<Blob, string>();  // History files live as long as the tab, so each is hashed once
+const storedBlobs = new Set<string>();           // Hashes confirmed on disk during this page load
+const touchedBlobs = new Map<string, number>();  // Hash -> last put
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+    let hash = blobHashes.get(blob);
+    if (!hash) {
+        hash = await sha256Hex(await blob.arrayBuffer());
+        blobHashes.set(blob, hash);
+    }
+    return hash;
+};
+
+const getBlobRecord = async (hash: string): Promise<BlobRecord | undefined> => {
+    const db = await openDB();
+    const request = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE).get(hash);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Stores the bytes once under their hash and returns it. Identical images, across
+ * branches and projects, share one copy. Bytes go to the Origin Private File System
+ * where it is writable, otherwise into IndexedDB next to the index record.
+ */
+export const putBlob = async (blob: Blob): Promise<string> => {
+    const hash = await hashBlob(blob);
+    touchedBlobs.set(hash, Date.now());
+    if (storedBlobs.has(hash) || await getBlobRecord(hash)) {
+        storedBlobs.add(hash);
+        return hash;
+    }
+
+    const record: BlobRecord = { id: hash, size: blob.size, type: blob.type, createdAt: Date.now(), backend: 'opfs' };
+    const written = await opfsWrite(hash, blob).catch(e => {
+        console.warn("OPFS write failed, storing blob in IndexedDB:", e);
+        return false;
+    });
+    if (!written) {
+        record.backend = 'idb';
+        record.data = blob;
+    }
+
+    const db = await openDB();
+    const tx = db.transaction(BLOBS_STORE, 'readwrite');
+    tx.objectStore(BLOBS_STORE).put(record);
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error); // QuotaExceededError arrives here, not in onerror
+    });
+    storedBlobs.add(hash);
+    return hash;
+};
+
+export const getBlob = async (hash: string): Promise<Blob | null> => {
+    try {
+        const record = await getBlobRecord(hash);
+        if (!record) return null;
+        const blob = record.backend === 'idb' ? record.data || null : await opfsRead(hash);
+        if (blob) storedBlobs.add(hash);
+        return blob;
+    } catch (e) {
+        console.error("Failed to read blob:", e);
+        return null;
+    }
+};
+
+export const loadBlobRecords = async (): Promise<BlobRecord[]> => {
+    try {
+        const db = await openDB();
+        const request = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE).getAll();
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to load blob index:", e);
+        return [];
+    }
+};
+
+// Every hash referenced by a session, including sessions sitting in quarantine
+const collectBlobReferences = async (db: IDBDatabase): Promise<Set<string>> => {
+    const referenced = new Set<string>();
+    const addSession = (session: any) => {
+        if (!Array.isArray(session?.items)) return;
+        session.items.forEach((item: any) => {
+            if (typeof item?.content?.hash === 'string') referenced.add(item.content.hash);
+        });
+    };
+    const tx = db.transaction([STORE_NAME, QUARANTINE_STORE], 'readonly');
+    await Promise.all([STORE_NAME, QUARANTINE_STORE].map(name => new Promise<void>((resolve, reject) => {
+        const request = tx.objectStore(name).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            addSession(name === QUARANTINE_STORE ? cursor.value.record : cursor.value);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    })));
+    return referenced;
+};
+
+/**
+ * Deletes blobs no session references any more, then OPFS files with no index record
+ * at all: writes whose index put failed, or deletes interrupted between the two steps.
+ */
+export const collectBlobGarbage = async (): Promise<BlobGcResult> => {
+    const db = await openDB();
+    const referenced = await collectBlobReferences(db);
+    const now = Date.now();
+    const isStale = (id: string, createdAt: number) => now - createdAt > BLOB_GC_GRACE_MS && now - (touchedBlobs.get(id) ?? 0) > BLOB_GC_GRACE_MS;
+    // Read here rather than via loadBlobRecords: an empty list on error would make every OPFS file look orphaned
+    const records = await new Promise<BlobRecord[]>((resolve, reject) => {
+        const request = db.transaction(BLOBS_STORE, 'readonly').objectStore(BLOBS_STORE).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    const victims = records.filter(r => !referenced.has(r.id) && isStale(r.id, r.createdAt));
+    const indexed = new Set(records.map(r => r.id));
+    // A file younger than the grace period may belong to a putBlob still writing its index record
+    const orphans = (await opfsList().catch(() => [])).filter(f => !indexed.has(f.name) && isStale(f.name, f.lastModified));
+    await Promise.all(orphans.map(f => opfsDelete(f.name)));
+    const orphaned = { removed: orphans.length, freedBytes: orphans.reduce((sum, f) => sum + f.size, 0) };
+    if (victims.length === 0) return orphaned;
+
+    // Index first: a file without an index record is unreachable, an index record without a file reads as missing
+    const tx = db.transaction(BLOBS_STORE, 'readwrite');
+    const store = tx.objectStore(BLOBS_STORE);
+    victims.forEach(r => store.delete(r.id));
+    await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+    await Promise.all(victims.filter(r => r.backend === 'opfs').map(r => opfsDelete(r.id)));
+    victims.forEach(r => storedBlobs.delete(r.id));
+
+    return { removed: victims.length + orphaned.removed, freedBytes: victims.reduce((sum, r) => sum + r.size, 0) + orphaned.freedBytes };
+};
+
+/** Lets the next collection take blobs the caller just stopped referencing, without waiting out the grace period. */
+export const releaseBlobs = (blobs: Blob[]) => {
+    blobs.forEach(blob => {
+        const hash = blobHashes.get(blob);
+        if (hash) touchedBlobs.delete(hash);
+    });
+};
+
+// --- Storage Measurement ---
+
+// Rough on-disk footprint: blob bytes plus the serialized size of everything else
+const estimateSize = (value: unknown): number => {
+    if (value instanceof Blob) return value.size;
+    if (typeof value === 'string') return value.length;
+    if (typeof value === 'number' || typeof value === 'boolean') return 8;
+    if (ArrayBuffer.isView(value)) return value.byteLength;
+    if (Array.isArray(value)) return value.reduce((sum: number, v) => sum + estimateSize(v), 0);
+    if (value && typeof value === 'object') {
+        return Object.entries(value).reduce((sum, [k, v]) => sum + k.length + estimateSize(v), 0);
+    }
+    return 0;
+};
+
+/** Approximate bytes per object store. Blob-store entries count their bytes wherever they live (OPFS or IndexedDB). */
+export const measureStores = async (): Promise<Record<string, number>> => {
+    const db = await openDB();
+    const names = Array.from(db.objectStoreNames);
+    const tx = db.transaction(names, 'readonly');
+    const sizes: Record<string, number> = {};
+    await Promise.all(names.map(name => new Promise<void>((resolve, reject) => {
+        sizes[name] = 0;
+        const request = tx.objectStore(name).openCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve();
+            sizes[name] += name === BLOBS_STORE ? (cursor.value as BlobRecord).size : estimateSize(cursor.value);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    })));
+    return sizes;
+};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CancelledError, throwIfAborted } from './errors';
+import type { PreprocessJob, PreprocessReply } from './preprocessWorker';
+
+export interface PreprocessSettings {
+    enabled: boolean;
+    maxEdge: number;      // Longest side in pixels after downscaling
+    mimeType: 'image/webp' | 'image/jpeg';
+    quality: number;      // 0-1 encoder quality
+}
+
+export const MAX_EDGE_CHOICES = [1024, 1536, 2048, 3072];
+
+const SETTINGS_KEY = 'pixshop-preprocess-settings';
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = { enabled: true, maxEdge: 2048, mimeType: 'image/webp', quality: 0.9 };
+
+/**
+ * Shrinks source images before they are base64-encoded for upload. The work runs in a
+ * Web Worker on an OffscreenCanvas; history keeps the full-resolution original, only
+ * the bytes sent to the model are prepared. Where workers are unavailable the original
+ * file is uploaded untouched.
+ */
+class PreprocessService {
+    private settings: PreprocessSettings = { ...DEFAULT_PREPROCESS_SETTINGS };
+    private listeners: ((settings: PreprocessSettings) => void)[] = [];
+    private worker: Worker | null = null;
+    private workerFailed = false;
+    private nextJobId = 0;
+    private pending = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(SETTINGS_KEY);
+            if (saved) this.settings = { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(saved) };
+        } catch (e) {}
+    }
+
+    public getSettings(): PreprocessSettings {
+        return this.settings;
+    }
+
+    public setSettings(patch: Partial<PreprocessSettings>) {
+        this.settings = { ...this.settings, ...patch };
+        try {
+            localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+        } catch (e) {}
+        this.listeners.forEach(l => l(this.settings));
+    }
+
+    public subscribe(listener: (settings: PreprocessSettings) => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /** The upload-ready version of `image`, or `image` itself when preprocessing is off or fails. */
+    public async prepare(image: Blob, signal?: AbortSignal): Promise<Blob> {
+        throwIfAborted(signal);
+        const worker = this.settings.enabled ? this.getWorker() : null;
+        if (!worker) return image;
+
+        const id = this.nextJobId++;
+        const job: PreprocessJob = { id, image, maxEdge: this.settings.maxEdge, mimeType: this.settings.mimeType, quality: this.settings.quality };
+        try {
+            return await new Promise<Blob>((resolve, reject) => {
+                const onAbort = () => {
+                    this.pending.delete(id);
+                    reject(new CancelledError());
+                };
+                signal?.addEventListener('abort', onAbort, { once: true });
+                this.pending.set(id, {
+                    resolve: blob => { signal?.removeEventListener('abort', onAbort); resolve(blob); },
+                    reject: error => { signal?.removeEventListener('abort', onAbort); reject(error); },
+                });
+                worker.postMessage(job);
+            });
+        } catch (e) {
+            if (e instanceof CancelledError) throw e;
+            // An image the browser cannot decode may still be readable by the model
+            console.warn("Preprocess: falling back to original upload", e);
+            return image;
+        }
+    }
+
+    private getWorker(): Worker | null {
+        if (this.worker || this.workerFailed) return this.worker;
+        try {
+            if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') throw new Error("OffscreenCanvas workers unsupported");
+            const worker = new Worker(new URL('./preprocessWorker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<PreprocessReply>) => {
+                const reply = event.data;
+                const job = this.pending.get(reply.id);
+                if (!job) return; // Aborted while in flight
+                this.pending.delete(reply.id);
+                if ('error' in reply) job.reject(new Error(reply.error));
+                else job.resolve(reply.blob);
+            };
+            worker.onerror = (event) => {
+                console.warn("Preprocess: worker crashed, uploads will skip preprocessing", event.message);
+                this.pending.forEach(job => job.reject(new Error(event.message || "Worker crashed")));
+                this.pending.clear();
+                worker.terminate();
+                this.worker = null;
+                this.workerFailed = true;
+            };
+            this.worker = worker;
+        } catch (e) {
+            console.warn("Preprocess: worker unavailable", e);
+            this.workerFailed = true;
+        }
+        return this.worker;
+    }
+}
+
+export const preprocessService = new PreprocessService();
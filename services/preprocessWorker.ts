@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Runs off the main thread: decode with EXIF orientation applied, downscale, re-encode.
+// Re-encoding through a canvas drops EXIF, XMP and ICC blocks from the upload.
+
+export interface PreprocessJob {
+    id: number;
+    image: Blob;
+    maxEdge: number;
+    mimeType: string;
+    quality: number;
+}
+
+export type PreprocessReply =
+    | { id: number; blob: Blob; width: number; height: number }
+    | { id: number; error: string };
+
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<PreprocessJob>) => void) | null;
+    postMessage: (message: PreprocessReply) => void;
+};
+
+scope.onmessage = async (event) => {
+    const { id, image, maxEdge, mimeType, quality } = event.data;
+    try {
+        const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+        const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("2D context unavailable");
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+
+        const blob = await canvas.convertToBlob({ type: mimeType, quality });
+        scope.postMessage({ id, blob, width, height });
+    } catch (e) {
+        scope.postMessage({ id, error: e instanceof Error ? e.message : String(e) });
+    }
+};
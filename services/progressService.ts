@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CancelledError, normalizeError } from './errors';
+
+export type ProgressPhase =
+    | 'started'
+    | 'queued'      // Waiting for a scheduler slot
+    | 'cooldown'    // Holding for a rate-limit window
+    | 'retrying'
+    | 'preparing'   // Local work before upload (preprocessing, encoding)
+    | 'uploading'
+    | 'generating'
+    | 'analyzing'
+    | 'refining'
+    | 'decoding'
+    | 'done'
+    | 'failed'
+    | 'cancelled';
+
+export type ProgressOutcome = 'done' | 'failed' | 'cancelled';
+
+export interface ProgressEvent {
+    jobId: number;
+    operation: string;
+    phase: ProgressPhase;
+    message: string | null;  // HUD text for the viewer overlay
+    percent?: number;        // 0-100, only where the job can actually count progress
+    model?: string;
+    startedAt: number;
+    timestamp: number;
+    expectedMs?: number;     // Typical duration of one call on this model, from past calls
+}
+
+// Handed to providers and the scheduler in place of a status callback
+export interface ProgressJob {
+    readonly id: number;
+    report(phase: ProgressPhase, message: string | null, percent?: number): void;
+    setModel(model: string): void;
+    recordCall(ms: number): void; // One provider call, dispatch to response
+    end(outcome: ProgressOutcome, message?: string | null): void;
+}
+
+const LATENCY_KEY = 'pixshop-model-latency';
+const LATENCY_WEIGHT = 0.3; // Share of each new sample in the moving average
+const RECENT_LIMIT = 200;
+
+const isTerminal = (phase: ProgressPhase) => phase === 'done' || phase === 'failed' || phase === 'cancelled';
+
+/**
+ * Per-job progress stream. Panels and App start jobs, providers and the scheduler
+ * report phases against them, and the spinner, loading overlay and debug console
+ * subscribe. Successful provider calls feed a per-model latency average used for
+ * ETAs; queueing, cooldowns and retries are timed by the scheduler and left out.
+ */
+class ProgressService {
+    private nextId = 1;
+    private active = new Map<number, ProgressEvent>();
+    private recent: ProgressEvent[] = [];
+    private latency: Record<string, number> = {};
+    private listeners: ((event: ProgressEvent) => void)[] = [];
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(LATENCY_KEY);
+            if (saved) this.latency = JSON.parse(saved);
+        } catch (e) {}
+    }
+
+    public start(operation: string, message: string | null = null): ProgressJob {
+        const id = this.nextId++;
+        const startedAt = Date.now();
+        this.emit({ jobId: id, operation, phase: 'started', message, startedAt, timestamp: startedAt });
+
+        const update = (patch: Partial<ProgressEvent>) => {
+            const last = this.active.get(id);
+            if (!last) return; // Already ended
+            this.emit({ ...last, ...patch, timestamp: Date.now() });
+        };
+        return {
+            id,
+            report: (phase, text, percent) => update({ phase, message: text, percent }),
+            setModel: (model) => update({ model, expectedMs: this.latency[model] }),
+            recordCall: (ms) => {
+                const model = this.active.get(id)?.model;
+                if (model) this.recordLatency(model, ms);
+            },
+            end: (outcome, text) => {
+                const last = this.active.get(id);
+                if (!last) return;
+                update({ phase: outcome, message: text === undefined ? last.message : text, percent: outcome === 'done' ? 100 : last.percent });
+            },
+        };
+    }
+
+    /** Runs `task` as a job, ending it with the outcome of the returned promise. */
+    public async track<T>(operation: string, task: (job: ProgressJob) => Promise<T>, message: string | null = null): Promise<T> {
+        const job = this.start(operation, message);
+        try {
+            const result = await task(job);
+            job.end('done');
+            return result;
+        } catch (e) {
+            job.end(normalizeError(e) instanceof CancelledError ? 'cancelled' : 'failed');
+            throw e;
+        }
+    }
+
+    /** Latest event of the most recently started job that is still running. */
+    public getCurrent(): ProgressEvent | null {
+        let current: ProgressEvent | null = null;
+        this.active.forEach(event => {
+            if (!current || event.jobId > current.jobId) current = event;
+        });
+        return current;
+    }
+
+    public getRecent(): ProgressEvent[] {
+        return this.recent;
+    }
+
+    public subscribe(listener: (event: ProgressEvent) => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private emit(event: ProgressEvent) {
+        if (isTerminal(event.phase)) this.active.delete(event.jobId);
+        else this.active.set(event.jobId, event);
+        this.recent = [event, ...this.recent].slice(0, RECENT_LIMIT);
+        this.listeners.forEach(l => l(event));
+    }
+
+    private recordLatency(model: string, ms: number) {
+        const previous = this.latency[model];
+        this.latency = { ...this.latency, [model]: previous === undefined ? ms : Math.round(previous + (ms - previous) * LATENCY_WEIGHT) };
+        try {
+            localStorage.setItem(LATENCY_KEY, JSON.stringify(this.latency));
+        } catch (e) {}
+    }
+}
+
+export const progressService = new ProgressService();
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { saveProject, loadProjects, deleteProject, saveSession, loadSession, loadSessionOutline, saveSessionOutline, clearState, collectBlobGarbage, SessionItem, SessionSnapshot, SavedSession, LEGACY_SESSION_ID } from './persistence';
+import { PixshopError } from './errors';
+import { renderThumbnail } from '../utils/thumbnail';
+import { EvictableNode } from '../utils/eviction';
+import { storageService, isQuotaError } from './storageService';
+
+export interface ProjectInfo {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    lastTab: string;
+    itemCount: number;
+    cover?: Blob;             // Small JPEG of the image that was on screen at the last save
+    coverSourceId?: string;   // History node the cover was rendered from
+}
+
+const ACTIVE_KEY = 'pixshop-active-project';
+const COVER_EDGE = 320;
+const DEFAULT_TAB = 'flux';
+// Other projects are pruned at most this often while usage stays above the threshold
+const STORED_EVICTION_COOLDOWN_MS = 5 * 60 * 1000;
+
+const createProjectId = () => `project_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Named sessions in IndexedDB. Each project owns one history tree, stored in the
+ * session store under the project id; the project record carries what the browser
+ * shows without loading the tree. The session from before projects is adopted as the
+ * first project the first time the list is read.
+ */
+class ProjectService {
+    private activeId: string | null = null;
+    private listeners: (() => void)[] = [];
+    private adoption: Promise<void> | null = null;
+    private lastStoredEviction = 0;
+
+    constructor() {
+        try {
+            this.activeId = localStorage.getItem(ACTIVE_KEY);
+        } catch (e) {}
+    }
+
+    public getActiveId(): string | null {
+        return this.activeId;
+    }
+
+    public setActive(id: string | null) {
+        this.activeId = id;
+        try {
+            if (id) localStorage.setItem(ACTIVE_KEY, id);
+            else localStorage.removeItem(ACTIVE_KEY);
+        } catch (e) {}
+        this.notify();
+    }
+
+    /** Most recently updated first. */
+    public async list(): Promise<ProjectInfo[]> {
+        await this.adoptLegacySession();
+        const projects = await loadProjects() as ProjectInfo[];
+        return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public async get(id: string): Promise<ProjectInfo | undefined> {
+        return (await this.list()).find(p => p.id === id);
+    }
+
+    public async create(name?: string): Promise<ProjectInfo> {
+        const now = Date.now();
+        const project: ProjectInfo = {
+            id: createProjectId(),
+            name: name?.trim() || `Project ${new Date(now).toLocaleDateString()}`,
+            createdAt: now,
+            updatedAt: now,
+            lastTab: DEFAULT_TAB,
+            itemCount: 0,
+        };
+        await saveProject(project);
+        this.notify();
+        return project;
+    }
+
+    public async rename(id: string, name: string): Promise<void> {
+        const project = await this.require(id);
+        if (!name.trim()) return;
+        await this.write({ ...project, name: name.trim(), updatedAt: Date.now() });
+        this.notify();
+    }
+
+    public async duplicate(id: string): Promise<ProjectInfo> {
+        const project = await this.require(id);
+        const session = await loadSession(id);
+        const now = Date.now();
+        const copy: ProjectInfo = { ...project, id: createProjectId(), name: `${project.name} copy`, createdAt: now, updatedAt: now };
+        if (session) await saveSession(copy.id, session);
+        await saveProject(copy);
+        this.notify();
+        return copy;
+    }
+
+    public async remove(id: string): Promise<void> {
+        await deleteProject(id);
+        if (this.activeId === id) {
+            // The detached workspace still holds these images; leave them to a later sweep, after its next save re-references them
+            this.setActive(null);
+            return;
+        }
+        this.notify();
+        this.collectGarbage();
+    }
+
+    public async load<T extends SessionItem>(id: string): Promise<SavedSession<T> | null> {
+        return loadSession<T>(id);
+    }
+
+    /**
+     * Writes the session and refreshes the project's cover, counters and last-used tab.
+     * Under storage pressure, or after a write hits the quota, the eviction policy runs
+     * first; the pruned snapshot is returned for the caller to adopt, null when the
+     * session was stored as given.
+     */
+    public async save<T extends SessionItem & EvictableNode>(id: string, snapshot: SessionSnapshot<T>): Promise<SessionSnapshot<T> | null> {
+        const project = await this.require(id);
+        let stored = snapshot;
+        let evicted = false;
+        const relieve = async (force: boolean) => {
+            const result = await storageService.prune(stored);
+            stored = result.snapshot;
+            evicted = evicted || result.changed;
+            if (force || Date.now() - this.lastStoredEviction > STORED_EVICTION_COOLDOWN_MS) {
+                this.lastStoredEviction = Date.now();
+                await this.evictStored(id);
+            }
+        };
+
+        if (storageService.isPolicyActive() && await storageService.isUnderPressure()) await relieve(false);
+        try {
+            await saveSession(id, stored);
+        } catch (e) {
+            if (!isQuotaError(e)) throw e;
+            // The early check missed (a large batch, a shrinking quota): free what we can and retry once
+            await relieve(true);
+            await collectBlobGarbage();
+            await saveSession(id, stored);
+        }
+
+        await this.writeSummary(project, stored);
+        this.notify();
+        if (evicted) this.collectGarbage();
+        return evicted ? stored : null;
+    }
+
+    /**
+     * Runs the eviction policy now, on every stored project and on `active`, the open
+     * session held by the caller, which gets the pruned version back.
+     */
+    public async evict<T extends SessionItem & EvictableNode>(activeId: string | null, active: SessionSnapshot<T> | null): Promise<{ snapshot: SessionSnapshot<T> | null; removed: number; downscaled: number }> {
+        const totals = await this.evictStored(activeId);
+        let snapshot: SessionSnapshot<T> | null = null;
+        if (activeId && active && active.history.length > 0) {
+            const result = await storageService.prune(active);
+            totals.removed += result.removed;
+            totals.downscaled += result.downscaled;
+            if (result.changed) {
+                snapshot = result.snapshot;
+                await saveSession(activeId, snapshot);
+                await this.writeSummary(await this.require(activeId), snapshot);
+            }
+        }
+        this.notify();
+        this.collectGarbage();
+        return { snapshot, ...totals };
+    }
+
+    /** Empties the project's history but keeps the project. */
+    public async clear(id: string): Promise<void> {
+        const project = await this.require(id);
+        await clearState(id);
+        await this.write({ ...project, updatedAt: Date.now(), itemCount: 0, cover: undefined, coverSourceId: undefined });
+        this.notify();
+        this.collectGarbage();
+    }
+
+    public subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private write(project: ProjectInfo): Promise<void> {
+        return saveProject(project);
+    }
+
+    private async writeSummary<T extends SessionItem & { id: string }>(project: ProjectInfo, snapshot: SessionSnapshot<T>): Promise<void> {
+        const current = snapshot.history.find(h => h.id === snapshot.currentId) || snapshot.history[snapshot.history.length - 1];
+        const coverChanged = current?.id !== project.coverSourceId;
+        const cover = !current ? undefined : coverChanged ? await renderThumbnail(current.content, COVER_EDGE) : project.cover;
+        await this.write({
+            ...project,
+            updatedAt: Date.now(),
+            lastTab: snapshot.activeTab,
+            itemCount: snapshot.history.length,
+            cover,
+            coverSourceId: current?.id,
+        });
+    }
+
+    // Prunes every stored project except the one the caller holds open, from metadata alone
+    private async evictStored(exceptId: string | null): Promise<{ removed: number; downscaled: number }> {
+        const totals = { removed: 0, downscaled: 0 };
+        for (const project of await loadProjects() as ProjectInfo[]) {
+            if (project.id === exceptId) continue;
+            const outline = await loadSessionOutline(project.id);
+            if (!outline) continue;
+            const result = await storageService.pruneOutline(outline);
+            if (!result.changed) continue;
+            await saveSessionOutline(project.id, result.outline);
+            await this.write({ ...project, itemCount: result.outline.items.length });
+            totals.removed += result.removed;
+            totals.downscaled += result.downscaled;
+        }
+        return totals;
+    }
+
+    private async require(id: string): Promise<ProjectInfo> {
+        const project = (await loadProjects() as ProjectInfo[]).find(p => p.id === id);
+        if (!project) throw new PixshopError('PROJECT_MISSING', "Project not found. It may have been deleted in another tab.");
+        return project;
+    }
+
+    private adoptLegacySession(): Promise<void> {
+        if (!this.adoption) {
+            this.adoption = (async () => {
+                const legacy = await loadSession(LEGACY_SESSION_ID);
+                if (!legacy || legacy.history.length === 0) return;
+                const project = await this.create('Recovered session');
+                await saveSession(project.id, legacy);
+                await this.write({ ...project, createdAt: legacy.savedAt, updatedAt: legacy.savedAt, lastTab: legacy.activeTab, itemCount: legacy.history.length });
+                await clearState(LEGACY_SESSION_ID);
+                if (!this.activeId) this.setActive(project.id);
+            })().catch(e => console.warn("Legacy session adoption failed:", e));
+            // Blobs orphaned by a tab that closed mid-cleanup are swept once per page load
+            this.adoption.then(() => this.collectGarbage());
+        }
+        return this.adoption;
+    }
+
+    // Images only shared with a removed history go away; anything still referenced elsewhere stays
+    private collectGarbage() {
+        collectBlobGarbage()
+            .then(({ removed, freedBytes }) => {
+                if (removed > 0) console.log(`Blob store: removed ${removed} unreferenced image(s), ${(freedBytes / 1024).toFixed(0)} KB`);
+            })
+            .catch(e => console.warn("Blob garbage collection failed:", e));
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+}
+
+export const projectService = new ProjectService();
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ImageGenerationConfig, RoutedStyle, STYLE_FACETS, StyleFacet } from './providerService';
+
+export type CompositionMode = 'text_to_image' | 'image_to_image' | 'edit';
+
+// isChaos predates the slider; on its own it means "high variation"
+const CHAOS_DEFAULT_LEVEL = 75;
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const strengthDirective = (strength: number, mode: CompositionMode): string => {
+    const pct = clampPercent(strength);
+    if (pct < 34) return `Light denoising (${pct}%). Preserve the source composition, identity and geometry; change only surface treatment.`;
+    if (pct < 67) return `Medium denoising (${pct}%). Keep the source layout and subject while restyling textures, light and color.`;
+    return mode === 'edit'
+        ? `Heavy denoising (${pct}%). Rework the image freely but keep the subject recognizable.`
+        : `Heavy denoising (${pct}%). Treat the source as loose reference for layout only.`;
+};
+
+const chaosDirective = (level: number): string | null => {
+    const pct = clampPercent(level);
+    if (pct === 0) return null;
+    if (pct < 34) return `Variation (${pct}%): subtle deviations in framing and detail are welcome.`;
+    if (pct < 67) return `Variation (${pct}%): take creative liberties with composition, palette and props.`;
+    return `Variation (${pct}%): maximum chaos. Break the expected composition, mix unexpected elements, push the aesthetic to extremes.`;
+};
+
+/**
+ * Folds the modifier fields of a generation config into the instruction text the
+ * model sees, so every backend and every path phrases them the same way.
+ */
+export const composePrompt = (prompt: string, mode: CompositionMode, config?: ImageGenerationConfig): string => {
+    const lines = [prompt.trim()];
+
+    if (mode !== 'text_to_image') {
+        if (config?.denoisingInstruction) lines.push(config.denoisingInstruction);
+        else if (config?.editStrength !== undefined) lines.push(strengthDirective(config.editStrength, mode));
+    }
+
+    const chaos = chaosDirective(config?.chaosLevel ?? (config?.isChaos ? CHAOS_DEFAULT_LEVEL : 0));
+    if (chaos) lines.push(chaos);
+
+    if (config?.colorConstraints?.length) lines.push(`Color constraint: build the palette from ${config.colorConstraints.join(', ')}.`);
+
+    const negative = config?.negativePrompt?.trim();
+    if (negative) lines.push(`Avoid: ${negative}.`);
+
+    return lines.filter(Boolean).join('\n');
+};
+
+/**
+ * Appends the kept facets of a DNA profile to the scanned prompt, so a saved or
+ * routed style carries its palette, lighting and so on into the receiving panel.
+ */
+export const composeStylePrompt = (style: RoutedStyle, facets: StyleFacet[]): string => {
+    const parts = [style.preset_data.prompt.trim()];
+    const profile = style.profile;
+    if (profile) {
+        for (const { id, label } of STYLE_FACETS) {
+            if (!facets.includes(id)) continue;
+            const value = id === 'palette' ? profile.palette.join(', ') : profile[id].trim();
+            if (value) parts.push(`${label}: ${value}.`);
+        }
+    }
+    return parts.filter(Boolean).join(' ');
+};
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { requestScheduler } from './schedulerService';
+import { OutputSize } from '../utils/aspectRatio';
+import { GenerationUsage } from './usageService';
+import { ProgressJob } from './progressService';
+
+// Requested frame of the output; backends without size control render at their native size
+export interface ImageOutputConfig {
+    aspectRatio?: string;
+    imageSize?: OutputSize;
+}
+
+export interface ImageGenerationConfig {
+    imageConfig?: ImageOutputConfig;
+    isChaos?: boolean;
+    chaosLevel?: number; // 0-100 variation, overrides isChaos
+    systemInstructionOverride?: string;
+    negativePrompt?: string;
+    colorConstraints?: string[]; // #RRGGBB swatches the result must be built from
+    denoisingInstruction?: string; // Verbatim edit directive, overrides editStrength
+    editStrength?: number; // 0-100, how far image paths may drift from the source
+    progress?: ProgressJob; // Job that phase reports for this call belong to
+    useGoogleSearch?: boolean; // Search grounding, where the backend supports it
+    signal?: AbortSignal; // Cancels the call and any read or retry it is waiting on
+    seed?: number; // Sampling seed; batches give each variant its own so identical prompts diverge
+    panel?: string; // Requesting panel, stamped by the registry for usage attribution
+}
+
+// Unified response type for image generation
+export interface ImageGenerationResult {
+    imageUrl: string;
+    groundingUrls?: { uri: string; title?: string }[];
+    usage?: GenerationUsage; // Absent for backends that don't bill
+}
+
+// Panels a DNA scan can route to; ids match the `recommendedPanel` stored on presets
+export type StylePanelId = 'filter_panel' | 'vector_art_panel' | 'typographic_panel' | 'light_panel' | 'flux';
+
+export const STYLE_PANEL_IDS: StylePanelId[] = ['filter_panel', 'vector_art_panel', 'typographic_panel', 'light_panel', 'flux'];
+
+export interface StyleProfile {
+    palette: string[];    // Dominant colors as #RRGGBB, most prominent first
+    lighting: string;
+    medium: string;
+    composition: string;
+    texture: string;
+    era: string;
+}
+
+export type StyleFacet = keyof StyleProfile;
+
+export const STYLE_FACETS: { id: StyleFacet; label: string }[] = [
+    { id: 'palette', label: 'Palette' },
+    { id: 'lighting', label: 'Lighting' },
+    { id: 'medium', label: 'Medium' },
+    { id: 'composition', label: 'Composition' },
+    { id: 'texture', label: 'Texture' },
+    { id: 'era', label: 'Era' },
+];
+
+export interface RouteSuggestion {
+    panel: StylePanelId;
+    confidence: number;   // 0-1
+    reason?: string;
+}
+
+export interface RoutedStyle {
+    target_panel_id: StylePanelId; // Top suggestion, or the panel picked by the user
+    preset_data: { name: string; description: string; prompt: string; };
+    profile?: StyleProfile;          // Absent on presets saved before profiles existed
+    suggestions?: RouteSuggestion[]; // Ranked, highest confidence first
+}
+
+/**
+ * A backend able to synthesize images. `textToImage` starts from nothing,
+ * `imageToImage` re-imagines a source, `editImage` retouches it in place.
+ */
+export interface ImageProvider {
+    id: string;
+    label: string;
+    metered?: boolean; // Calls draw on paid quota, so the budget guard applies
+    validateKey?: (apiKey: string) => Promise<void>; // Providers that take keys from the vault
+    textToImage: (prompt: string, config?: ImageGenerationConfig) => Promise<ImageGenerationResult>;
+    imageToImage: (source: File | string, prompt: string, config?: ImageGenerationConfig) => Promise<ImageGenerationResult>;
+    editImage: (source: File | string, prompt: string, config?: ImageGenerationConfig) => Promise<ImageGenerationResult>;
+}
+
+/**
+ * A backend for the reasoning calls the panels make around a generation:
+ * prompt refinement, image description and DNA extraction.
+ */
+export interface TextProvider {
+    id: string;
+    label: string;
+    refinePrompt: (prompt: string, useDeepThinking?: boolean, progress?: ProgressJob, signal?: AbortSignal) => Promise<string>;
+    // bypassCache skips the analysis cache lookup; the fresh result still replaces the entry
+    describeImage: (image: File | string, progress?: ProgressJob, signal?: AbortSignal, bypassCache?: boolean) => Promise<string>;
+    extractStyle: (image: File | string, progress?: ProgressJob, signal?: AbortSignal, bypassCache?: boolean) => Promise<RoutedStyle>;
+    // Local cache lookups tried before a scheduler slot is taken; null (or no lookup) means a real call
+    cachedDescription?: (image: File | string, progress?: ProgressJob, signal?: AbortSignal) => Promise<string | null>;
+    cachedStyle?: (image: File | string, progress?: ProgressJob, signal?: AbortSignal) => Promise<RoutedStyle | null>;
+}
+
+const ROUTES_KEY = 'pixshop-provider-routes';
+const DEFAULT_PROVIDER_ID = 'gemini';
+
+type ProviderRoutes = Record<string, string>;
+
+// Every call handed out by the registry runs through the request scheduler
+const scheduleImageProvider = (provider: ImageProvider, panel?: string): ImageProvider => {
+    const stamp = (config?: ImageGenerationConfig): ImageGenerationConfig => ({ ...config, panel: config?.panel ?? panel });
+    return {
+        ...provider,
+        textToImage: (prompt, config) =>
+            requestScheduler.run(() => provider.textToImage(prompt, stamp(config)), { progress: config?.progress, signal: config?.signal }),
+        imageToImage: (source, prompt, config) =>
+            requestScheduler.run(() => provider.imageToImage(source, prompt, stamp(config)), { progress: config?.progress, signal: config?.signal }),
+        editImage: (source, prompt, config) =>
+            requestScheduler.run(() => provider.editImage(source, prompt, stamp(config)), { progress: config?.progress, signal: config?.signal }),
+    };
+};
+
+const scheduleTextProvider = (provider: TextProvider): TextProvider => ({
+    ...provider,
+    refinePrompt: (prompt, useDeepThinking, progress, signal) =>
+        requestScheduler.run(() => provider.refinePrompt(prompt, useDeepThinking, progress, signal), { progress, signal }),
+    // Cache hits answer without queueing behind generations
+    describeImage: async (image, progress, signal, bypassCache) => {
+        const cached = bypassCache ? null : await provider.cachedDescription?.(image, progress, signal);
+        return cached ?? requestScheduler.run(() => provider.describeImage(image, progress, signal, bypassCache), { progress, signal });
+    },
+    extractStyle: async (image, progress, signal, bypassCache) => {
+        const cached = bypassCache ? null : await provider.cachedStyle?.(image, progress, signal);
+        return cached ?? requestScheduler.run(() => provider.extractStyle(image, progress, signal, bypassCache), { progress, signal });
+    },
+});
+
+/**
+ * Registry of generation backends. Panels are routed to a provider by their
+ * tab id; anything without an explicit route uses the default provider.
+ */
+class ProviderService {
+    private imageProviders = new Map<string, ImageProvider>();
+    private textProviders = new Map<string, TextProvider>();
+    private routes: ProviderRoutes = {};
+    private listeners: ((routes: ProviderRoutes) => void)[] = [];
+
+    constructor() {
+        this.registerImageProvider(geminiProvider);
+        this.registerTextProvider(geminiProvider);
+        this.registerImageProvider(mockProvider);
+        this.registerTextProvider(mockProvider);
+        try {
+            const saved = localStorage.getItem(ROUTES_KEY);
+            if (saved) this.routes = JSON.parse(saved);
+        } catch (e) {}
+    }
+
+    public registerImageProvider(provider: ImageProvider) {
+        this.imageProviders.set(provider.id, provider);
+    }
+
+    public registerTextProvider(provider: TextProvider) {
+        this.textProviders.set(provider.id, provider);
+    }
+
+    public listImageProviders(): ImageProvider[] {
+        return Array.from(this.imageProviders.values());
+    }
+
+    public listTextProviders(): TextProvider[] {
+        return Array.from(this.textProviders.values());
+    }
+
+    public getImageProvider(panel?: string): ImageProvider {
+        const id = (panel && this.routes[panel]) || this.routes.default || DEFAULT_PROVIDER_ID;
+        return scheduleImageProvider(this.imageProviders.get(id) || this.imageProviders.get(DEFAULT_PROVIDER_ID)!, panel);
+    }
+
+    public getTextProvider(panel?: string): TextProvider {
+        const id = (panel && this.routes[panel]) || this.routes.default || DEFAULT_PROVIDER_ID;
+        return scheduleTextProvider(this.textProviders.get(id) || this.textProviders.get(DEFAULT_PROVIDER_ID)!);
+    }
+
+    public getRoutes(): ProviderRoutes {
+        return this.routes;
+    }
+
+    /** Route a panel (or 'default' for every unrouted panel) to a provider. Pass null to clear. */
+    public setRoute(panel: string, providerId: string | null) {
+        const next = { ...this.routes };
+        if (providerId) next[panel] = providerId;
+        else delete next[panel];
+        this.routes = next;
+        try {
+            localStorage.setItem(ROUTES_KEY, JSON.stringify(next));
+        } catch (e) {}
+        this.listeners.forEach(l => l(this.routes));
+    }
+
+    public subscribe(listener: (routes: ProviderRoutes) => void) {
+        this.listeners.push(listener);
+        listener(this.routes);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+}
+
+export const providerService = new ProviderService();
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { saveRecordings, loadRecording, loadRecordings, countRecordings, clearRecordings } from './persistence';
+import { base64ToBytes, sha256Hex } from '../utils/hash';
+import { PixshopError } from './errors';
+
+export type RecorderMode = 'off' | 'record' | 'replay';
+
+type RecordedPart =
+    | { text: string }
+    | { inlineData: { mimeType?: string; hash: string } };
+
+export interface RecordedExchange {
+    id: string; // Request fingerprint
+    timestamp: number;
+    request: {
+        model: string;
+        systemInstruction?: string;
+        parts: RecordedPart[];
+        config: Record<string, any>;
+    };
+    response: Pick<GenerateContentResponse, 'candidates' | 'promptFeedback' | 'usageMetadata' | 'modelVersion'>;
+}
+
+export interface SessionBundle {
+    format: 'pixshop-session';
+    version: 1;
+    exportedAt: number;
+    entries: RecordedExchange[];
+}
+
+const MODE_KEY = 'pixshop-recorder-mode';
+
+const toParts = (contents: any): any[] => {
+    if (typeof contents === 'string') return [{ text: contents }];
+    if (Array.isArray(contents)) return contents.flatMap(toParts);
+    if (contents?.parts) return contents.parts;
+    return [contents];
+};
+
+/**
+ * Captures Gemini request/response pairs and plays them back by request fingerprint.
+ * Images are reduced to SHA-256 hashes in the fingerprint, so a replay matches
+ * whenever the same model, instructions, prompt and image bytes are sent.
+ */
+class RecorderService {
+    private mode: RecorderMode = 'off';
+    private listeners: ((mode: RecorderMode) => void)[] = [];
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(MODE_KEY);
+            if (saved === 'record' || saved === 'replay') this.mode = saved;
+        } catch (e) {}
+    }
+
+    public getMode() {
+        return this.mode;
+    }
+
+    public setMode(mode: RecorderMode) {
+        this.mode = mode;
+        try {
+            localStorage.setItem(MODE_KEY, mode);
+        } catch (e) {}
+        this.listeners.forEach(l => l(mode));
+    }
+
+    public subscribe(listener: (mode: RecorderMode) => void) {
+        this.listeners.push(listener);
+        listener(this.mode);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    public async describeRequest(params: GenerateContentParameters): Promise<RecordedExchange['request'] & { fingerprint: string }> {
+        const { systemInstruction, ...config } = (params.config || {}) as Record<string, any>;
+        const parts: RecordedPart[] = await Promise.all(toParts(params.contents).map(async (part: any) => {
+            if (part.inlineData) {
+                return { inlineData: { mimeType: part.inlineData.mimeType, hash: await sha256Hex(base64ToBytes(part.inlineData.data)) } };
+            }
+            return { text: part.text ?? '' };
+        }));
+        const request = {
+            model: params.model,
+            systemInstruction: typeof systemInstruction === 'string' ? systemInstruction : undefined,
+            parts,
+            config,
+        };
+        return { ...request, fingerprint: await sha256Hex(JSON.stringify(request)) };
+    }
+
+    public async record(params: GenerateContentParameters, response: GenerateContentResponse): Promise<void> {
+        try {
+            const { fingerprint, ...request } = await this.describeRequest(params);
+            const entry: RecordedExchange = {
+                id: fingerprint,
+                timestamp: Date.now(),
+                request,
+                response: {
+                    candidates: response.candidates,
+                    promptFeedback: response.promptFeedback,
+                    usageMetadata: response.usageMetadata,
+                    modelVersion: response.modelVersion,
+                },
+            };
+            await saveRecordings([entry]);
+        } catch (e) {
+            // A failed recording must never break the live generation
+            console.warn("Recorder: failed to store exchange", e);
+        }
+    }
+
+    public async replay(params: GenerateContentParameters): Promise<GenerateContentResponse> {
+        const { fingerprint } = await this.describeRequest(params);
+        const entry = await loadRecording(fingerprint) as RecordedExchange | null;
+        if (!entry) throw new PixshopError('REPLAY_MISS', `No recorded response for request ${fingerprint.slice(0, 12)}.`);
+        return Object.assign(new GenerateContentResponse(), entry.response);
+    }
+
+    public async count(): Promise<number> {
+        return countRecordings();
+    }
+
+    public async exportBundle(): Promise<Blob> {
+        const bundle: SessionBundle = {
+            format: 'pixshop-session',
+            version: 1,
+            exportedAt: Date.now(),
+            entries: await loadRecordings(),
+        };
+        return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+    }
+
+    public async importBundle(file: File): Promise<number> {
+        const bundle = JSON.parse(await file.text()) as SessionBundle;
+        if (bundle?.format !== 'pixshop-session' || !Array.isArray(bundle.entries)) {
+            throw new PixshopError('BUNDLE_INVALID', "File is not a Pixshop session bundle.");
+        }
+        await saveRecordings(bundle.entries);
+        return bundle.entries.length;
+    }
+
+    public async clear(): Promise<void> {
+        await clearRecordings();
+    }
+}
+
+export const recorderService = new RecorderService();
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CancelledError, normalizeError, RateLimitError, throwIfAborted } from './errors';
+import { ProgressJob } from './progressService';
+
+const MAX_CONCURRENT = 2;
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+export interface ScheduleOptions {
+    progress?: ProgressJob;
+    signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    // An already-aborted signal never fires 'abort' again
+    if (signal?.aborted) return reject(new CancelledError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with jitter so parallel retries don't land together
+const backoffDelay = (attempt: number) => {
+    const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(ceiling * (0.5 + Math.random() * 0.5));
+};
+
+/**
+ * Gatekeeper for every provider call: caps in-flight requests, retries
+ * retryable failures and holds the whole queue while a rate limit cools down.
+ */
+class RequestScheduler {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+    private cooldownUntil = 0;
+
+    private async countdown(until: number, phase: 'cooldown' | 'retrying', label: string, progress?: ProgressJob, signal?: AbortSignal) {
+        while (Date.now() < until) {
+            progress?.report(phase, `${label}: ${Math.ceil((until - Date.now()) / 1000)}S`);
+            await sleep(Math.min(1000, until - Date.now()), signal);
+        }
+    }
+
+    private async acquire(progress?: ProgressJob, signal?: AbortSignal) {
+        while (this.active >= MAX_CONCURRENT) {
+            throwIfAborted(signal);
+            progress?.report('queued', "QUEUED_FOR_NEURAL_SLOT...");
+            await new Promise<void>((resolve, reject) => {
+                const wake = () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                };
+                // A cancelled waiter leaves the queue, so the slot goes to the next live call
+                const onAbort = () => {
+                    this.waiting = this.waiting.filter(w => w !== wake);
+                    reject(new CancelledError());
+                };
+                this.waiting.push(wake);
+                signal?.addEventListener('abort', onAbort, { once: true });
+            });
+        }
+        this.active++;
+    }
+
+    private release() {
+        this.active--;
+        this.waiting.shift()?.();
+    }
+
+    public async run<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+        const { progress, signal } = options;
+        for (let attempt = 1; ; attempt++) {
+            await this.countdown(this.cooldownUntil, 'cooldown', "WAITING_FOR_QUOTA", progress, signal);
+            await this.acquire(progress, signal);
+            if (signal?.aborted) {
+                this.release();
+                throw new CancelledError();
+            }
+
+            let delay: number;
+            const dispatchedAt = Date.now();
+            try {
+                const result = await task();
+                // Backends that ignore the signal still must not deliver a cancelled result
+                throwIfAborted(signal);
+                progress?.recordCall(Date.now() - dispatchedAt);
+                return result;
+            } catch (e) {
+                const error = normalizeError(e);
+                if (!error.retryable || attempt >= MAX_ATTEMPTS) throw error;
+
+                if (error instanceof RateLimitError) {
+                    // A 429 means the shared key is exhausted; every queued call has to wait
+                    delay = error.retryAfterMs ?? backoffDelay(attempt);
+                    this.cooldownUntil = Math.max(this.cooldownUntil, Date.now() + delay);
+                    console.warn(`Scheduler: rate limited, cooling down ${delay}ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+                    continue;
+                }
+                delay = backoffDelay(attempt);
+                console.warn(`Scheduler: ${error.code}, retrying in ${delay}ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+            } finally {
+                this.release();
+            }
+            await this.countdown(Date.now() + delay, 'retrying', `RETRYING_SYNTHESIS [${attempt + 1}/${MAX_ATTEMPTS}]`, progress, signal);
+        }
+    }
+}
+
+export const requestScheduler = new RequestScheduler();
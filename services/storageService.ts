@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { measureStores, releaseBlobs, loadStoredImage, storeImage, SessionItem, SessionSnapshot, SessionOutline } from './persistence';
+import { STORES } from './dbSchema';
+import { EvictionPolicy, EvictableNode, planEviction, removeNodes } from '../utils/eviction';
+import { renderThumbnail } from '../utils/thumbnail';
+
+export type StorageCategory = 'images' | 'presets' | 'caches' | 'audio' | 'logs' | 'other';
+
+export interface StorageBreakdown {
+    usage: number;
+    quota: number;
+    persisted: boolean;
+    categories: { id: StorageCategory; label: string; bytes: number }[];
+}
+
+export interface PruneResult<T extends SessionItem> {
+    snapshot: SessionSnapshot<T>;
+    changed: boolean;        // Anything differs from the input, including items only flagged as downscaled
+    removed: number;
+    downscaled: number;
+}
+
+export interface OutlinePruneResult {
+    outline: SessionOutline;
+    changed: boolean;
+    removed: number;
+    downscaled: number;
+}
+
+export const DEFAULT_EVICTION_POLICY: EvictionPolicy = { keepLastSteps: 0, dropIntermediate: false, thumbnailAfterDays: 0, autoEvictAt: 0.9 };
+
+export const KEEP_STEPS_CHOICES = [0, 25, 50, 100];
+export const THUMBNAIL_AFTER_CHOICES = [0, 7, 30, 90];
+
+const POLICY_KEY = 'pixshop-eviction-policy';
+const THUMBNAIL_EDGE = 512;
+
+const CATEGORY_STORES: { id: StorageCategory; label: string; stores: string[] }[] = [
+    { id: 'images', label: 'History images', stores: [STORES.history, STORES.blobs, STORES.projects] },
+    { id: 'presets', label: 'Presets', stores: [STORES.presets] },
+    { id: 'caches', label: 'Caches', stores: [STORES.analysisCache] },
+    { id: 'audio', label: 'Drone audio', stores: [STORES.config] },
+    { id: 'logs', label: 'Logs', stores: [STORES.usage, STORES.recordings, STORES.quarantine] },
+];
+
+export const isQuotaError = (e: unknown) => e instanceof DOMException && (e.name === 'QuotaExceededError' || e.code === 22);
+
+/**
+ * Browser storage usage and the eviction policy that keeps it in bounds. Eviction
+ * runs on a session before it is written, when usage crosses `autoEvictAt` or a
+ * write has already hit the quota; it never touches starred results.
+ */
+class StorageService {
+    private policy: EvictionPolicy = { ...DEFAULT_EVICTION_POLICY };
+    private listeners: ((policy: EvictionPolicy) => void)[] = [];
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(POLICY_KEY);
+            if (saved) this.policy = { ...DEFAULT_EVICTION_POLICY, ...JSON.parse(saved) };
+        } catch (e) {}
+    }
+
+    public getPolicy(): EvictionPolicy {
+        return this.policy;
+    }
+
+    public setPolicy(patch: Partial<EvictionPolicy>) {
+        this.policy = { ...this.policy, ...patch };
+        try {
+            localStorage.setItem(POLICY_KEY, JSON.stringify(this.policy));
+        } catch (e) {}
+        this.listeners.forEach(l => l(this.policy));
+    }
+
+    public subscribe(listener: (policy: EvictionPolicy) => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /** Whether eviction would do anything at all; all-off policies skip the work. */
+    public isPolicyActive(policy = this.policy): boolean {
+        return policy.keepLastSteps > 0 || policy.dropIntermediate || policy.thumbnailAfterDays > 0;
+    }
+
+    public async estimate(): Promise<StorageBreakdown> {
+        const [estimate, persisted, sizes] = await Promise.all([
+            navigator.storage?.estimate ? navigator.storage.estimate() : Promise.resolve({} as StorageEstimate),
+            navigator.storage?.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+            measureStores(),
+        ]);
+        const categories = CATEGORY_STORES.map(({ id, label, stores }) => ({
+            id, label, bytes: stores.reduce((sum, store) => sum + (sizes[store] || 0), 0),
+        }));
+        const measured = categories.reduce((sum, c) => sum + c.bytes, 0);
+        const usage = estimate.usage ?? measured;
+        // Keys, backups and database overhead; the browser's figure includes them, ours does not
+        categories.push({ id: 'other', label: 'Other', bytes: Math.max(0, usage - measured) });
+        return { usage, quota: estimate.quota ?? 0, persisted, categories };
+    }
+
+    /** Asks the browser not to clear this origin's data under storage pressure. */
+    public async requestPersistence(): Promise<boolean> {
+        if (!navigator.storage?.persist) return false;
+        return navigator.storage.persist();
+    }
+
+    public async isUnderPressure(): Promise<boolean> {
+        if (!navigator.storage?.estimate) return false;
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        return quota > 0 && usage / quota >= this.policy.autoEvictAt;
+    }
+
+    /** Applies the policy to one session. The node on screen always survives. */
+    public async prune<T extends SessionItem & EvictableNode>(snapshot: SessionSnapshot<T>, policy = this.policy): Promise<PruneResult<T>> {
+        if (!this.isPolicyActive(policy)) return { snapshot, changed: false, removed: 0, downscaled: 0 };
+        const plan = planEviction(snapshot.history, snapshot.currentId, policy);
+        const released: Blob[] = [];
+        let downscaled = 0;
+
+        const history = await Promise.all(snapshot.history.map(async item => {
+            if (plan.remove.has(item.id)) {
+                if (item.content instanceof Blob) released.push(item.content);
+                return item;
+            }
+            if (!plan.downscale.has(item.id)) return item;
+            if (!(item.content instanceof File)) return { ...item, downscaled: true }; // Remote URLs are not ours to shrink
+            const thumb = await this.shrink(item.content);
+            if (!thumb) return { ...item, downscaled: true };
+            released.push(item.content);
+            downscaled++;
+            return { ...item, content: thumb, downscaled: true };
+        }));
+
+        const pruned = removeNodes(history, plan.remove, snapshot.activeChildren);
+        releaseBlobs(released);
+        return {
+            snapshot: { ...snapshot, history: pruned.nodes, activeChildren: pruned.activeChildren },
+            changed: plan.remove.size > 0 || plan.downscale.size > 0,
+            removed: plan.remove.size,
+            downscaled,
+        };
+    }
+
+    /**
+     * `prune` for a session that is not open: plans on the stored metadata and only
+     * reads the images it downscales, one at a time, so memory stays flat however
+     * large the project is.
+     */
+    public async pruneOutline(outline: SessionOutline, policy = this.policy): Promise<OutlinePruneResult> {
+        if (!this.isPolicyActive(policy)) return { outline, changed: false, removed: 0, downscaled: 0 };
+        const plan = planEviction(outline.items.map(item => item.meta as EvictableNode), outline.currentId, policy);
+        let downscaled = 0;
+
+        const items: SessionOutline['items'] = [];
+        for (const item of outline.items) {
+            if (plan.remove.has(item.meta.id) || !plan.downscale.has(item.meta.id)) {
+                items.push(item);
+                continue;
+            }
+            const meta = { ...item.meta, downscaled: true };
+            const image = item.content.isUrl ? null : await loadStoredImage(item.content);
+            const thumb = image instanceof File ? await this.shrink(image) : null;
+            if (!thumb) {
+                items.push({ ...item, meta });
+                continue;
+            }
+            items.push({ meta, content: await storeImage(thumb) });
+            downscaled++;
+        }
+
+        const pruned = removeNodes(items.map(item => item.meta as EvictableNode), plan.remove, outline.activeChildren);
+        const byId = new Map(items.map(item => [item.meta.id, item]));
+        return {
+            outline: {
+                ...outline,
+                items: pruned.nodes.map(meta => ({ meta, content: byId.get(meta.id)!.content })),
+                activeChildren: pruned.activeChildren,
+            },
+            changed: plan.remove.size > 0 || plan.downscale.size > 0,
+            removed: plan.remove.size,
+            downscaled,
+        };
+    }
+
+    // A thumbnail-sized copy of `file`, or null when that would not save anything
+    private async shrink(file: File): Promise<File | null> {
+        // WebP keeps transparency; browsers that cannot encode it hand back PNG, which the size check catches
+        const thumb = await renderThumbnail(file, THUMBNAIL_EDGE, file.type === 'image/jpeg' ? 'image/jpeg' : 'image/webp');
+        if (!thumb || thumb.size >= file.size) return null;
+        return new File([thumb], file.name, { type: thumb.type, lastModified: file.lastModified });
+    }
+}
+
+export const storageService = new StorageService();
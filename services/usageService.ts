@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentResponse } from "@google/genai";
+import { appendUsage, loadUsage, pruneUsage, clearUsage } from './persistence';
+
+export type UsageOperation = 'text_to_image' | 'image_to_image' | 'edit' | 'refine' | 'describe' | 'extract_style';
+
+export interface GenerationUsage {
+    model: string;
+    promptTokens: number;
+    candidateTokens: number;
+    totalTokens: number;
+    imageCount: number;
+}
+
+export interface UsageContext {
+    operation: UsageOperation;
+    panel?: string;
+}
+
+export interface UsageEntry extends GenerationUsage, UsageContext {
+    id: string;
+    timestamp: number;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    candidateTokens: number;
+    totalTokens: number;
+    imageCount: number;
+    cost: number;
+}
+
+export interface UsageSummary {
+    session: UsageTotals;
+    today: UsageTotals;
+    days: { date: string; totals: UsageTotals }[]; // Newest first
+}
+
+const PRICES_KEY = 'pixshop-price-table';
+const RETENTION_DAYS = 40; // Outlives the longest monthly budget window
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Published paid-tier list prices; image output is billed as output tokens
+export const DEFAULT_PRICES: PriceTable = {
+    'gemini-2.5-flash-image': { inputPerMillion: 0.30, outputPerMillion: 30 },
+    'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120 },
+    'gemini-3-flash-preview': { inputPerMillion: 0.50, outputPerMillion: 3 },
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+};
+
+export const extractUsage = (response: GenerateContentResponse, model: string): GenerationUsage => {
+    const meta = response.usageMetadata;
+    const imageCount = (response.candidates || [])
+        .flatMap(c => c.content?.parts || [])
+        .filter(p => p.inlineData)
+        .length;
+    const promptTokens = meta?.promptTokenCount ?? 0;
+    const candidateTokens = meta?.candidatesTokenCount ?? 0;
+    return {
+        model,
+        promptTokens,
+        candidateTokens,
+        totalTokens: meta?.totalTokenCount ?? promptTokens + candidateTokens,
+        imageCount,
+    };
+};
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, candidateTokens: 0, totalTokens: 0, imageCount: 0, cost: 0 });
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry, cost: number) => {
+    totals.requests++;
+    totals.promptTokens += entry.promptTokens;
+    totals.candidateTokens += entry.candidateTokens;
+    totals.totalTokens += entry.totalTokens;
+    totals.imageCount += entry.imageCount;
+    totals.cost += cost;
+};
+
+const localDate = (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Rolling ledger of token usage for every API response, with cost estimates
+ * from an editable price table. Entries older than the retention window are pruned.
+ */
+class UsageService {
+    private readonly sessionStart = Date.now();
+    private prices: PriceTable = { ...DEFAULT_PRICES };
+    private listeners: (() => void)[] = [];
+    private pruned = false;
+
+    constructor() {
+        try {
+            const saved = localStorage.getItem(PRICES_KEY);
+            if (saved) this.prices = { ...DEFAULT_PRICES, ...JSON.parse(saved) };
+        } catch (e) {}
+    }
+
+    public async record(usage: GenerationUsage, context: UsageContext): Promise<void> {
+        const entry: UsageEntry = {
+            ...usage,
+            ...context,
+            id: `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+            timestamp: Date.now(),
+        };
+        try {
+            await appendUsage(entry);
+            if (!this.pruned) {
+                this.pruned = true;
+                await pruneUsage(Date.now() - RETENTION_DAYS * DAY_MS);
+            }
+            this.notify();
+        } catch (e) {
+            // Accounting must never break a generation
+            console.warn("Usage: failed to record entry", e);
+        }
+    }
+
+    public estimateCost(usage: Pick<GenerationUsage, 'model' | 'promptTokens' | 'candidateTokens'>): number {
+        const price = this.prices[usage.model];
+        if (!price) return 0;
+        return (usage.promptTokens * price.inputPerMillion + usage.candidateTokens * price.outputPerMillion) / 1_000_000;
+    }
+
+    public async summarize(): Promise<UsageSummary> {
+        const entries = await loadUsage(Date.now() - RETENTION_DAYS * DAY_MS) as UsageEntry[];
+        const session = emptyTotals();
+        const byDay = new Map<string, UsageTotals>();
+        for (const entry of entries) {
+            const cost = this.estimateCost(entry);
+            if (entry.timestamp >= this.sessionStart) addEntry(session, entry, cost);
+            const date = localDate(entry.timestamp);
+            if (!byDay.has(date)) byDay.set(date, emptyTotals());
+            addEntry(byDay.get(date)!, entry, cost);
+        }
+        const days = Array.from(byDay.entries())
+            .map(([date, totals]) => ({ date, totals }))
+            .sort((a, b) => b.date.localeCompare(a.date));
+        return { session, today: byDay.get(localDate(Date.now())) || emptyTotals(), days };
+    }
+
+    public async totalsSince(timestamp: number): Promise<UsageTotals> {
+        const totals = emptyTotals();
+        for (const entry of await loadUsage(timestamp) as UsageEntry[]) addEntry(totals, entry, this.estimateCost(entry));
+        return totals;
+    }
+
+    public getPrices(): PriceTable {
+        return this.prices;
+    }
+
+    public setPrice(model: string, price: ModelPrice) {
+        this.prices = { ...this.prices, [model]: price };
+        try {
+            localStorage.setItem(PRICES_KEY, JSON.stringify(this.prices));
+        } catch (e) {}
+        this.notify();
+    }
+
+    public resetPrices() {
+        this.prices = { ...DEFAULT_PRICES };
+        try {
+            localStorage.removeItem(PRICES_KEY);
+        } catch (e) {}
+        this.notify();
+    }
+
+    public async clear(): Promise<void> {
+        await clearUsage();
+        this.notify();
+    }
+
+    public subscribe(listener: () => void) {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify() {
+        this.listeners.forEach(l => l());
+    }
+}
+
+export const usageService = new UsageService();
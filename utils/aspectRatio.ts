@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Every ratio the image models accept; "match source" snaps to the closest of these
+export const SUPPORTED_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'] as const;
+
+// The subset offered in the panels
+export const ASPECT_RATIO_CHOICES = ['1:1', '4:5', '3:4', '9:16', '16:9', 'source'] as const;
+export type AspectRatioChoice = typeof ASPECT_RATIO_CHOICES[number];
+
+export const OUTPUT_SIZES = ['1K', '2K'] as const;
+export type OutputSize = typeof OUTPUT_SIZES[number];
+
+export const parseAspectRatio = (ratio: string): number => {
+    const [w, h] = ratio.split(':').map(Number);
+    return w && h ? w / h : 1;
+};
+
+/**
+ * Closest supported ratio to the given dimensions, compared on a log scale so
+ * 9:16 and 16:9 are treated as equally far from 1:1.
+ */
+export const nearestAspectRatio = (width: number, height: number): string => {
+    const target = Math.log(width / height);
+    let best: string = SUPPORTED_ASPECT_RATIOS[0];
+    let bestDistance = Infinity;
+    for (const ratio of SUPPORTED_ASPECT_RATIOS) {
+        const distance = Math.abs(Math.log(parseAspectRatio(ratio)) - target);
+        if (distance < bestDistance) {
+            best = ratio;
+            bestDistance = distance;
+        }
+    }
+    return best;
+};
+
+export const readImageDimensions = (source: File | string): Promise<{ width: number; height: number }> => {
+    return new Promise((resolve, reject) => {
+        const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+        const img = new Image();
+        img.onload = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            resolve({ width: img.naturalWidth, height: img.naturalHeight });
+        };
+        img.onerror = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            reject(new Error("Unable to read image dimensions"));
+        };
+        img.src = url;
+    });
+};
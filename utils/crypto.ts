@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { base64ToBytes, bytesToBase64 } from './hash';
+
+export interface SealedSecret {
+  salt: string;       // base64, PBKDF2 salt
+  iv: string;         // base64, AES-GCM nonce
+  ciphertext: string; // base64
+}
+
+const PBKDF2_ITERATIONS = 250_000;
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * AES-GCM encryption under a key derived from `passphrase` with PBKDF2-SHA-256.
+ */
+export async function sealSecret(secret: string, passphrase: string): Promise<SealedSecret> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return { salt: bytesToBase64(salt), iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Inverse of `sealSecret`; rejects when the passphrase is wrong (GCM tag mismatch).
+ */
+export async function openSecret(sealed: SealedSecret, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, base64ToBytes(sealed.salt));
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(sealed.iv) }, key, base64ToBytes(sealed.ciphertext));
+  return new TextDecoder().decode(plain);
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TreeNode, childrenOf } from './historyTree';
+
+export interface EvictionPolicy {
+  keepLastSteps: number;       // Newest nodes kept per project; 0 keeps everything
+  dropIntermediate: boolean;   // Remove results that were only a step towards a later one
+  thumbnailAfterDays: number;  // Downscale images older than this; 0 never downscales
+  autoEvictAt: number;         // Share of the quota (0-1) that triggers eviction before a save
+}
+
+export interface EvictableNode extends TreeNode {
+  type: string;
+  timestamp: number;
+  starred?: boolean;
+  downscaled?: boolean;
+}
+
+export interface EvictionPlan {
+  remove: Set<string>;
+  downscale: Set<string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Which nodes a policy removes or downscales. Starred nodes, uploads (the originals a
+ * tree grew from) and the node on screen are never removed; starred ones keep full
+ * resolution too.
+ */
+export function planEviction<T extends EvictableNode>(nodes: T[], currentId: string | null, policy: EvictionPolicy, now = Date.now()): EvictionPlan {
+  const isProtected = (n: T) => !!n.starred || n.type === 'upload' || n.id === currentId;
+  const remove = new Set<string>();
+
+  if (policy.keepLastSteps > 0) {
+    [...nodes]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(policy.keepLastSteps)
+      .forEach(n => { if (!isProtected(n)) remove.add(n.id); });
+  }
+
+  if (policy.dropIntermediate) {
+    nodes.forEach(n => {
+      if (!isProtected(n) && childrenOf(nodes, n.id).length > 0) remove.add(n.id);
+    });
+  }
+
+  const downscale = new Set<string>();
+  if (policy.thumbnailAfterDays > 0) {
+    const cutoff = now - policy.thumbnailAfterDays * DAY_MS;
+    nodes.forEach(n => {
+      if (!remove.has(n.id) && !n.starred && !n.downscaled && n.id !== currentId && n.timestamp < cutoff) downscale.add(n.id);
+    });
+  }
+
+  return { remove, downscale };
+}
+
+/**
+ * Drops `remove` from the tree. Children of a removed node move up to its nearest
+ * surviving ancestor, so branches stay connected; redo memory pointing at removed
+ * nodes is forgotten.
+ */
+export function removeNodes<T extends TreeNode>(nodes: T[], remove: Set<string>, activeChildren: Record<string, string>): { nodes: T[]; activeChildren: Record<string, string> } {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const survivingParent = (id: string | null): string | null => {
+    let parentId = id;
+    while (parentId && remove.has(parentId)) parentId = byId.get(parentId)?.parentId ?? null;
+    return parentId;
+  };
+  const kept = nodes
+    .filter(n => !remove.has(n.id))
+    .map(n => remove.has(n.parentId ?? '') ? { ...n, parentId: survivingParent(n.parentId) } : n);
+  const children = Object.fromEntries(Object.entries(activeChildren).filter(([parent, child]) => !remove.has(parent) && !remove.has(child)));
+  return { nodes: kept, activeChildren: children };
+}
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export function base64ToBytes(base64: string) {
+  const bstr = atob(base64);
+  const bytes = new Uint8Array(bstr.length);
+  for (let i = 0; i < bstr.length; i++) bytes[i] = bstr.charCodeAt(i);
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array) {
+  let bstr = '';
+  for (let i = 0; i < bytes.length; i++) bstr += String.fromCharCode(bytes[i]);
+  return btoa(bstr);
+}
+
+/**
+ * Hex-encoded SHA-256 of a string (hashed as UTF-8) or raw bytes.
+ */
+export async function sha256Hex(input: string | BufferSource): Promise<string> {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
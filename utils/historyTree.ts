@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface TreeNode {
+  id: string;
+  parentId: string | null;  // null for roots (uploads, or generations made without a source)
+}
+
+// A run of nodes drawn on one row: the oldest child continues its parent's row,
+// every younger sibling opens a new row that forks from the parent
+export interface Branch<T extends TreeNode> {
+  forkFrom: T | null;
+  nodes: T[];
+}
+
+export const createNodeId = () => `node_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export function childrenOf<T extends TreeNode>(nodes: T[], id: string): T[] {
+  return nodes.filter(n => n.parentId === id);
+}
+
+/** Nodes from the root down to `id`, inclusive; empty when `id` is unknown. */
+export function pathTo<T extends TreeNode>(nodes: T[], id: string | null): T[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const path: T[] = [];
+  for (let node = id ? byId.get(id) : undefined; node; node = node.parentId ? byId.get(node.parentId) : undefined) {
+    path.unshift(node);
+  }
+  return path;
+}
+
+/**
+ * Records which child leads to `id` for every ancestor, so redo walks back down the
+ * branch that was last visited instead of an arbitrary sibling.
+ */
+export function rememberPath<T extends TreeNode>(activeChildren: Record<string, string>, nodes: T[], id: string): Record<string, string> {
+  const next = { ...activeChildren };
+  for (const node of pathTo(nodes, id)) {
+    if (node.parentId) next[node.parentId] = node.id;
+  }
+  return next;
+}
+
+/** The child redo moves to: the remembered one, else the newest. */
+export function redoTarget<T extends TreeNode>(nodes: T[], activeChildren: Record<string, string>, id: string): T | undefined {
+  const children = childrenOf(nodes, id);
+  return children.find(c => c.id === activeChildren[id]) || children[children.length - 1];
+}
+
+/** Splits the forest into rows for drawing, depth-first so forks follow their parent row. */
+export function toBranches<T extends TreeNode>(nodes: T[]): Branch<T>[] {
+  const branches: Branch<T>[] = [];
+  const walk = (start: T, forkFrom: T | null) => {
+    const branch: Branch<T> = { forkFrom, nodes: [] };
+    branches.push(branch);
+    const forks: { child: T; parent: T }[] = [];
+    for (let node: T | undefined = start; node; ) {
+      branch.nodes.push(node);
+      const [first, ...rest] = childrenOf(nodes, node.id);
+      const parent: T = node;
+      rest.forEach(child => forks.push({ child, parent }));
+      node = first;
+    }
+    forks.forEach(({ child, parent }) => walk(child, parent));
+  };
+  const ids = new Set(nodes.map(n => n.id));
+  nodes.filter(n => !n.parentId || !ids.has(n.parentId)).forEach(root => walk(root, null));
+  return branches;
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const BLOB_DIR = 'blobs';
+
+// Directory iteration is typed in DOM.AsyncIterable, which this project's lib setting leaves out
+type IterableDirectory = FileSystemDirectoryHandle & { entries(): AsyncIterableIterator<[string, FileSystemHandle]> };
+
+export interface OpfsEntry {
+  name: string;
+  size: number;
+  lastModified: number;
+}
+
+let blobDir: Promise<FileSystemDirectoryHandle | null> | null = null;
+
+// Writable streams are what we need; some browsers expose OPFS without them (sync handles in workers only)
+const canWrite = () => typeof FileSystemFileHandle !== 'undefined' && 'createWritable' in FileSystemFileHandle.prototype;
+
+const getBlobDir = (): Promise<FileSystemDirectoryHandle | null> => {
+  if (!blobDir) {
+    blobDir = (async () => {
+      if (!navigator.storage?.getDirectory || !canWrite()) return null;
+      try {
+        const root = await navigator.storage.getDirectory();
+        return await root.getDirectoryHandle(BLOB_DIR, { create: true });
+      } catch (e) {
+        return null; // Private browsing and some embedded webviews refuse OPFS
+      }
+    })();
+  }
+  return blobDir;
+};
+
+export const isOpfsAvailable = async () => !!(await getBlobDir());
+
+/** Writes `blob` under `name`; false when OPFS is unavailable so the caller can fall back. */
+export async function opfsWrite(name: string, blob: Blob): Promise<boolean> {
+  const dir = await getBlobDir();
+  if (!dir) return false;
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  try {
+    await writable.write(blob);
+    await writable.close();
+  } catch (e) {
+    await writable.abort().catch(() => {});
+    throw e;
+  }
+  return true;
+}
+
+export async function opfsRead(name: string): Promise<File | null> {
+  const dir = await getBlobDir();
+  if (!dir) return null;
+  try {
+    return await (await dir.getFileHandle(name)).getFile();
+  } catch (e) {
+    return null;
+  }
+}
+
+export async function opfsDelete(name: string): Promise<void> {
+  const dir = await getBlobDir();
+  if (!dir) return;
+  await dir.removeEntry(name).catch(() => {}); // Already gone is fine
+}
+
+/** Every stored blob file with its size and write time; reads metadata only, never the bytes. */
+export async function opfsList(): Promise<OpfsEntry[]> {
+  const dir = await getBlobDir();
+  if (!dir) return [];
+  const entries: OpfsEntry[] = [];
+  for await (const [name, handle] of (dir as IterableDirectory).entries()) {
+    if (handle.kind !== 'file') continue;
+    const file = await (handle as FileSystemFileHandle).getFile();
+    entries.push({ name, size: file.size, lastModified: file.lastModified });
+  }
+  return entries;
+}
+
+/** Removes every stored blob file, e.g. when the database that indexes them is wiped. */
+export async function opfsClear(): Promise<void> {
+  if (!navigator.storage?.getDirectory) return;
+  try {
+    const root = await navigator.storage.getDirectory();
+    await root.removeEntry(BLOB_DIR, { recursive: true });
+  } catch (e) {
+    // Nothing stored yet
+  }
+  blobDir = null;
+}
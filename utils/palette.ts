@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface PaletteSwatch {
+  hex: string;                     // #RRGGBB
+  rgb: [number, number, number];
+  share: number;                   // Fraction of sampled pixels this color stands for
+}
+
+export const rgbToHex = (r: number, g: number, b: number): string =>
+  '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Pixels are packed as 0xRRGGBB; channel 0 is red
+const channelOf = (pixel: number, channel: number) => (pixel >> (16 - channel * 8)) & 0xff;
+
+const widestChannel = (pixels: number[]): { channel: number; range: number } => {
+  const min = [255, 255, 255];
+  const max = [0, 0, 0];
+  for (const pixel of pixels) {
+    for (let c = 0; c < 3; c++) {
+      const v = channelOf(pixel, c);
+      if (v < min[c]) min[c] = v;
+      if (v > max[c]) max[c] = v;
+    }
+  }
+  let channel = 0;
+  for (let c = 1; c < 3; c++) if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+  return { channel, range: max[channel] - min[channel] };
+};
+
+/**
+ * Median-cut quantization of RGBA pixel data into at most `count` swatches, most
+ * common first. Transparent pixels are ignored. The same input always produces the
+ * same palette: splits and ties are resolved by value, never by chance.
+ */
+export function medianCut(data: Uint8ClampedArray, count: number): PaletteSwatch[] {
+  const pixels: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push((data[i] << 16) | (data[i + 1] << 8) | data[i + 2]);
+  }
+  if (pixels.length === 0) return [];
+
+  const boxes: number[][] = [pixels];
+  while (boxes.length < count) {
+    let target = -1;
+    let split = { channel: 0, range: 0 };
+    boxes.forEach((box, index) => {
+      const widest = widestChannel(box);
+      if (widest.range > split.range) {
+        target = index;
+        split = widest;
+      }
+    });
+    if (target < 0) break; // Every box is a single color
+
+    const sorted = boxes[target].slice().sort((a, b) => channelOf(a, split.channel) - channelOf(b, split.channel) || a - b);
+    // Cut next to the median where the channel value changes, so one color never lands in both halves
+    const median = channelOf(sorted[sorted.length >> 1], split.channel);
+    let cut = sorted.findIndex(p => channelOf(p, split.channel) >= median);
+    if (cut === 0) cut = sorted.findIndex(p => channelOf(p, split.channel) > median);
+    boxes.splice(target, 1, sorted.slice(0, cut), sorted.slice(cut));
+  }
+
+  return boxes
+    .map((box): PaletteSwatch => {
+      const sum = [0, 0, 0];
+      for (const pixel of box) for (let c = 0; c < 3; c++) sum[c] += channelOf(pixel, c);
+      const rgb = sum.map(v => Math.round(v / box.length)) as [number, number, number];
+      return { hex: rgbToHex(...rgb), rgb, share: box.length / pixels.length };
+    })
+    .sort((a, b) => b.share - a.share || a.hex.localeCompare(b.hex));
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PaletteSwatch } from './palette';
+
+export type PaletteFormat = 'ase' | 'gpl' | 'css' | 'tailwind';
+
+export const PALETTE_FORMATS: { id: PaletteFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'ase', label: 'ASE', extension: 'ase', mimeType: 'application/octet-stream' },
+  { id: 'gpl', label: 'GPL', extension: 'gpl', mimeType: 'text/plain' },
+  { id: 'css', label: 'CSS', extension: 'css', mimeType: 'text/css' },
+  { id: 'tailwind', label: 'Tailwind', extension: 'js', mimeType: 'text/javascript' },
+];
+
+const swatchName = (index: number) => `color-${index + 1}`;
+
+// Adobe Swatch Exchange 1.0: big-endian blocks, UTF-16 names, RGB as 0-1 floats
+export function toAse(swatches: PaletteSwatch[]): Uint8Array<ArrayBuffer> {
+  const blocks = swatches.map(swatch => {
+    const name = `${swatch.hex}\0`;
+    const length = 2 + name.length * 2 + 4 + 12 + 2;
+    const view = new DataView(new ArrayBuffer(6 + length));
+    let offset = 0;
+    view.setUint16(offset, 0x0001); offset += 2;          // Color entry
+    view.setUint32(offset, length); offset += 4;
+    view.setUint16(offset, name.length); offset += 2;
+    for (let i = 0; i < name.length; i++, offset += 2) view.setUint16(offset, name.charCodeAt(i));
+    for (const ch of 'RGB ') view.setUint8(offset++, ch.charCodeAt(0));
+    for (const v of swatch.rgb) { view.setFloat32(offset, v / 255); offset += 4; }
+    view.setUint16(offset, 2);                            // Normal (process) color
+    return new Uint8Array(view.buffer);
+  });
+
+  const header = new DataView(new ArrayBuffer(12));
+  'ASEF'.split('').forEach((ch, i) => header.setUint8(i, ch.charCodeAt(0)));
+  header.setUint16(4, 1);
+  header.setUint16(6, 0);
+  header.setUint32(8, blocks.length);
+
+  const out = new Uint8Array(12 + blocks.reduce((sum, b) => sum + b.length, 0));
+  out.set(new Uint8Array(header.buffer), 0);
+  let offset = 12;
+  for (const block of blocks) {
+    out.set(block, offset);
+    offset += block.length;
+  }
+  return out;
+}
+
+// GIMP / Inkscape / Krita palette
+export function toGpl(swatches: PaletteSwatch[], name: string): string {
+  const rows = swatches.map(s => `${s.rgb.map(v => String(v).padStart(3)).join(' ')}\t${s.hex}`);
+  return ['GIMP Palette', `Name: ${name}`, `Columns: ${Math.min(swatches.length, 8)}`, '#', ...rows, ''].join('\n');
+}
+
+export function toCss(swatches: PaletteSwatch[], prefix = 'pixshop'): string {
+  const vars = swatches.map((s, i) => `  --${prefix}-${swatchName(i)}: ${s.hex};`);
+  return [':root {', ...vars, '}', ''].join('\n');
+}
+
+// Drop-in for theme.extend.colors in tailwind.config.js
+export function toTailwind(swatches: PaletteSwatch[], key = 'pixshop'): string {
+  const entries = swatches.map((s, i) => `          ${i + 1}: '${s.hex}',`);
+  return [
+    'module.exports = {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    `        ${key}: {`,
+    ...entries,
+    '        },',
+    '      },',
+    '    },',
+    '  },',
+    '};',
+    '',
+  ].join('\n');
+}
+
+export function exportPalette(swatches: PaletteSwatch[], format: PaletteFormat, name: string): Blob {
+  const { mimeType } = PALETTE_FORMATS.find(f => f.id === format)!;
+  switch (format) {
+    case 'ase': return new Blob([toAse(swatches)], { type: mimeType });
+    case 'gpl': return new Blob([toGpl(swatches, name)], { type: mimeType });
+    case 'css': return new Blob([toCss(swatches)], { type: mimeType });
+    case 'tailwind': return new Blob([toTailwind(swatches)], { type: mimeType });
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Re-encodes an image so its longest side is at most `maxEdge`. Undefined when the
+ * image cannot be read (remote images without CORS, unsupported formats).
+ */
+export async function renderThumbnail(content: Blob | string, maxEdge: number, type = 'image/jpeg', quality = 0.8): Promise<Blob | undefined> {
+  try {
+    const source = typeof content === 'string' ? await (await fetch(content)).blob() : content;
+    const bitmap = await createImageBitmap(source);
+    const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob | undefined>(resolve => canvas.toBlob(blob => resolve(blob || undefined), type, quality));
+  } catch (e) {
+    return undefined;
+  }
+}
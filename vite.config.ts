@@ -1,14 +1,12 @@
 
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 // Fix: Import process to get correct types for process.cwd()
 import process from 'process';
 import path from 'path';
 
+// API keys are entered at runtime (System Terminal > Key_Vault) and never bundled
 export default defineConfig(({ mode }) => {
-  // Load env files
-  const env = loadEnv(mode, process.cwd(), '');
-  
   return {
     plugins: [react()],
     base: './', // Critical for Capacitor
@@ -17,9 +15,6 @@ export default defineConfig(({ mode }) => {
         '@': path.resolve(process.cwd(), '.'),
       },
     },
-    define: {
-      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
     build: {
       outDir: 'dist',
       assetsDir: 'assets',